@@ -1,159 +1,809 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Platform, View, Text, ScrollView, TextInput, Pressable, Modal, Switch, Image, Alert, StyleSheet } from 'react-native';
+import { Platform, useWindowDimensions, View, Text, ScrollView, TextInput, Pressable, Modal, Switch, Image, Alert, Share, StyleSheet, GestureResponderEvent } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Print from 'expo-print';
+import {
+  type Day, DAYS, type Task, type OccurrenceChange, type EventItem, type Occurrence, type Settings, defaultSettings, type Profile,
+  type Category, type Caregiver, type Reward, type PinLock, FAMILY, defaultAccent, defaultBg, ACCENTS, BACKGROUNDS, toMinutes, fromMinutes, overlaps,
+  formatTime, gridRange, slotTimes, weekDaysFor, toISODate, addDays, startOfWeek, dayOf, formatDate, dayName, occurrencesInWeek, validateEvent,
+  sortOccurrences, CATEGORY_ICONS, findCategory, withCategories, renameCategoryIn, type Template, starterTemplates, templateFromWeek,
+  copyEvent, eventsFromTemplate, clearDates, parsePoints, starBalance, starsEarned, hashPin, type Slot, dragResult, moveOccurrence, laneBox, slotBox,
+  layoutDay, MIN_FREE_MINUTES, weekStats, formatHours, NARROW_WIDTH, nowNext, findCaregiver, assignedTo, unassignCaregiver, handoverClashes,
+  type HandoverClash, type PrintOptions, type PrintEvent, printHTML,
+  type CsvPreview, toCSV, previewCSV, type ImportSummary, toICS, parseICS, newProfile, type PlannerDoc, DOC_VERSION, migrateDoc, SHARE_URL,
+  toBackup, parseBackup, mergeDocs, type SharedWeek, encodeWeek, weekFromText, type HistoryEntry, HISTORY_LIMIT, snapshotEvents,
+  restoreEvents,
+} from './plannerCore';
+import { LANGUAGES, type Translate, translator, languageFor, localeFor, clockFor } from './i18n';
 
-type Day = 'Monday'|'Tuesday'|'Wednesday'|'Thursday'|'Friday'|'Saturday'|'Sunday';
-const DAYS: Day[] = ['Monday','Tuesday','Wednesday','Thursday','Friday','Saturday','Sunday'];
-const HOURS = Array.from({ length: 15 }, (_, i) => 7 + i); // 07->21
-
-type EventItem = {
-  id: string;
-  title: string;
-  day: Day;
-  start: string; // "HH:MM"
-  end: string;   // "HH:MM"
-  category: string;
-  color: string;
-  notes?: string;
-};
-
-const defaultAccent = '#2563eb';
-
-function timeToRow(time: string) {
-  const [h, m] = time.split(':').map(Number);
-  return (h - 7) + (m >= 30 ? 0.5 : 0);
+// Alert.alert is a no-op on react-native-web, so messages and confirmations go through window.alert/confirm there.
+function notify(title: string, message: string) {
+  if (Platform.OS === 'web') window.alert(`${title}\n\n${message}`);
+  else Alert.alert(title, message);
 }
-function overlaps(a: EventItem, b: EventItem) {
-  if (a.day !== b.day) return false;
-  const sa = timeToRow(a.start), ea = timeToRow(a.end);
-  const sb = timeToRow(b.start), eb = timeToRow(b.end);
-  return Math.max(sa, sb) < Math.min(ea, eb);
+function confirmAction(title: string, message: string, onConfirm: () => void, t: Translate) {
+  if (Platform.OS === 'web') {
+    if (window.confirm(`${title}\n\n${message}`)) onConfirm();
+    return;
+  }
+  Alert.alert(title, message, [
+    { text: t('cancel'), style: 'cancel' },
+    { text: t('ok'), style: 'destructive', onPress: onConfirm },
+  ]);
+}
+
+function downloadWeb(text: string, filename: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
 }
-function formatHour(h: number) {
-  const whole = Math.floor(h);
-  const mins = (h - whole) > 0 ? ':30' : ':00';
-  const hh = ((whole % 24) + 24) % 24;
-  return `${String(hh).padStart(2,'0')}${mins}`;
+function pickFileWeb(accept: string, onFile: (file: File) => void) {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = accept;
+  input.onchange = (e: any) => {
+    const f: File | undefined = e.target?.files?.[0];
+    if (f) onFile(f);
+  };
+  input.click();
 }
 
+// --- Storage ---
+
+// The planner document lives under one key, so it is written in one go.
+const DOC_KEY = 'kwp:planner';
+const LEGACY_KEYS = ['kwp:title', 'kwp:profiles', 'kwp:activeProfile', 'kwp:settings', 'kwp:dense', 'kwp:photo', 'kwp:accent', 'kwp:bgColor', 'kwp:events'];
+
 async function getLS<T>(key: string, fallback: T): Promise<T> {
-  try {
-    const raw = await AsyncStorage.getItem(key);
-    return raw ? JSON.parse(raw) as T : fallback;
-  } catch { return fallback; }
+  const raw = await AsyncStorage.getItem(key);
+  return raw ? JSON.parse(raw) as T : fallback;
+}
+
+// Version 0 is the data from before the document: separate keys, and before profiles existed
+// one child's data under flat keys, which becomes the first profile.
+async function loadLegacyDoc(t: Translate): Promise<PlannerDoc> {
+  let profiles = await getLS<Profile[]>('kwp:profiles', []);
+  if (!profiles.length) {
+    profiles = [{
+      ...newProfile(t('childN', { n: 1 }), 0),
+      photo: await getLS('kwp:photo', null),
+      accent: await getLS('kwp:accent', defaultAccent),
+      bgColor: await getLS('kwp:bgColor', defaultBg),
+      events: await getLS<EventItem[]>('kwp:events', []),
+    }];
+  }
+  // The grid used to have only a "half-hour rows" switch; it becomes the slot size.
+  const settings = await getLS<Partial<Settings> | null>('kwp:settings', null) ?? { slotMinutes: (await getLS('kwp:dense', false)) ? 30 : 60 };
+  return {
+    version: 0,
+    title: await getLS('kwp:title', t('appTitle')),
+    profiles,
+    activeId: await getLS('kwp:activeProfile', profiles[0].id),
+    settings: { ...defaultSettings, ...settings },
+    categories: [],
+    templates: [],
+    caregivers: [],
+    lock: null,
+    kidMode: false,
+  };
+}
+
+// Errors are left to the caller: a document that cannot be read must not be replaced by defaults.
+async function loadDoc(t: Translate): Promise<PlannerDoc> {
+  const raw = await AsyncStorage.getItem(DOC_KEY);
+  if (raw) return migrateDoc(JSON.parse(raw) as PlannerDoc, t);
+  const doc = migrateDoc(await loadLegacyDoc(t), t);
+  await saveDoc(doc);
+  await AsyncStorage.multiRemove(LEGACY_KEYS);
+  return doc;
 }
-async function setLS<T>(key: string, val: T) {
-  try { await AsyncStorage.setItem(key, JSON.stringify(val)); } catch {}
+async function saveDoc(doc: PlannerDoc) {
+  await AsyncStorage.setItem(DOC_KEY, JSON.stringify(doc));
+}
+
+function storageMessage(err: unknown, t: Translate) {
+  const text = err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+  if (/quota|full|SQLITE_FULL/i.test(text)) return t('storageFull');
+  return t('saveFailed', { detail: text });
 }
 
 export default function KidsWeeklyPlanner() {
   const [title, setTitle] = useState('Kids Weekly Planner');
-  const [bgColor, setBgColor] = useState('#f8fafc');
-  const [accent, setAccent] = useState(defaultAccent);
-  const [photo, setPhoto] = useState<string | null>(null);
-  const [events, setEvents] = useState<EventItem[]>([]);
-  const [denseHours, setDenseHours] = useState(false);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeId, setActiveId] = useState<string>(FAMILY);
+  const [settings, setSettings] = useState<Settings>(defaultSettings);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [hiddenCategories, setHiddenCategories] = useState<string[]>([]);
+  const [categoriesOpen, setCategoriesOpen] = useState(false);
+  const [caregivers, setCaregivers] = useState<Caregiver[]>([]);
+  const [caregiverView, setCaregiverView] = useState<string | null>(null);
+  const [caregiversOpen, setCaregiversOpen] = useState(false);
+  const [nameDrafts, setNameDrafts] = useState<Record<string, string>>({});
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [lock, setLock] = useState<PinLock | null>(null);
+  const [kidMode, setKidMode] = useState(false);
+  const [lockOpen, setLockOpen] = useState(false);
+  const [pinDraft, setPinDraft] = useState({ pin: '', confirm: '' });
+  const [templateName, setTemplateName] = useState('');
+  const [pendingTemplate, setPendingTemplate] = useState<Template | null>(null);
+  const [templateSpan, setTemplateSpan] = useState<'week' | 'ongoing'>('ongoing');
+  const [copyDays, setCopyDays] = useState<Day[]>([]);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveAttempt, setSaveAttempt] = useState(0);
+  const [history, setHistory] = useState<{ past: HistoryEntry[]; future: HistoryEntry[] }>({ past: [], future: [] });
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(toISODate(new Date())));
+  const [agendaDate, setAgendaDate] = useState(() => toISODate(new Date()));
+  const [now, setNow] = useState(() => new Date());
+  const { width } = useWindowDimensions();
 
   const [open, setOpen] = useState(false);
   const [editing, setEditing] = useState<EventItem | null>(null);
+  const [editingOwner, setEditingOwner] = useState<string | null>(null);
+  const [editingDate, setEditingDate] = useState<string | null>(null);
+  const [editScope, setEditScope] = useState<'one' | 'all'>('all');
+  const [profileOpen, setProfileOpen] = useState(false);
+  const [dayOpen, setDayOpen] = useState<Day | null>(null);
+  const [taskDraft, setTaskDraft] = useState('');
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [csvPreview, setCsvPreview] = useState<CsvPreview | null>(null);
+  const [printOpen, setPrintOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [rewardsOpen, setRewardsOpen] = useState(false);
+  const [restoreOpen, setRestoreOpen] = useState(false);
+  const [restoreText, setRestoreText] = useState('');
+  const [backupPreview, setBackupPreview] = useState<PlannerDoc | null>(null);
+  const [sharedWeek, setSharedWeek] = useState<SharedWeek | null>(null);
+  const [shareTarget, setShareTarget] = useState<string | null>(null);
+  const [rewardDraft, setRewardDraft] = useState({ title: '', cost: '' });
+  const [printOptions, setPrintOptions] = useState<PrintOptions>({ paper: 'A4', orientation: 'landscape', photo: true, legend: true, stats: false });
+  const [moreEvents, setMoreEvents] = useState<(Occurrence & { profileId: string })[] | null>(null);
+  const [drag, setDrag] = useState<{ key: string; to: Slot; clash: boolean } | null>(null);
+  const dragRef = useRef<{ event: Occurrence & { profileId: string }; mode: 'move' | 'resize'; x0: number; y0: number; to: Slot | null } | null>(null);
+  const swipeRef = useRef<{ x0: number; y0: number } | null>(null);
+
+  const language = languageFor(settings.language);
+  const locale = localeFor(language);
+  const t = useMemo(() => translator(language), [language]);
+  const clock = clockFor(settings.clock, locale);
+  const rtl = LANGUAGES[language].rtl;
 
+  async function load() {
+    setStatus('loading');
+    try {
+      const doc = await loadDoc(t);
+      setTitle(doc.title);
+      setProfiles(doc.profiles);
+      setActiveId(doc.activeId);
+      setSettings(doc.settings);
+      setCategories(doc.categories);
+      setTemplates(doc.templates);
+      setCaregivers(doc.caregivers);
+      setLock(doc.lock);
+      setKidMode(doc.kidMode);
+      setWeekStart(startOfWeek(toISODate(new Date()), doc.settings.weekStartsOn));
+      setStatus('ready');
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+      setStatus('error');
+    }
+  }
+  useEffect(() => { load(); }, []);
+  // Opening a "share this week" link offers to import it, once the planner it goes into is loaded
+  // and a parent is at the controls.
+  useEffect(() => {
+    if (status !== 'ready' || kidMode || Platform.OS !== 'web' || !window.location.hash.startsWith('#week=')) return;
+    try {
+      openSharedWeek(weekFromText(window.location.hash, t)!);
+    } catch (err) {
+      notify(t('sharedWeek'), (err as Error).message);
+    }
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, [status, kidMode]);
+  // Nothing is written until the stored document is in, so defaults can never replace it.
+  // Writes are batched briefly because typing a title would otherwise re-save every photo per key.
   useEffect(() => {
-    (async () => {
-      setTitle(await getLS('kwp:title', 'Kids Weekly Planner'));
-      setBgColor(await getLS('kwp:bgColor', '#f8fafc'));
-      setAccent(await getLS('kwp:accent', defaultAccent));
-      setPhoto(await getLS('kwp:photo', null));
-      setEvents(await getLS('kwp:events', []));
-      setDenseHours(await getLS('kwp:dense', false));
-    })();
-  }, []);
-  useEffect(() => { setLS('kwp:title', title); }, [title]);
-  useEffect(() => { setLS('kwp:bgColor', bgColor); }, [bgColor]);
-  useEffect(() => { setLS('kwp:accent', accent); }, [accent]);
-  useEffect(() => { setLS('kwp:photo', photo); }, [photo]);
-  useEffect(() => { setLS('kwp:events', events); }, [events]);
-  useEffect(() => { setLS('kwp:dense', denseHours); }, [denseHours]);
+    if (status !== 'ready') return;
+    const timer = setTimeout(() => {
+      saveDoc(currentDoc()).then(
+        () => setSaveError(null),
+        err => setSaveError(prev => {
+          const message = storageMessage(err, t);
+          if (prev !== message) notify(t('notSaved'), message);
+          return message;
+        }),
+      );
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [status, title, profiles, activeId, settings, categories, templates, caregivers, lock, kidMode, saveAttempt]);
+
+  const familyMode = activeId === FAMILY;
+  const activeProfile = familyMode ? null : profiles.find(p => p.id === activeId) ?? null;
+  const accent = activeProfile?.accent ?? defaultAccent;
+  const bgColor = activeProfile?.bgColor ?? defaultBg;
+  const photo = activeProfile?.photo ?? null;
+
+  const today = toISODate(new Date());
+  const weekDays = useMemo(() => weekDaysFor(settings), [settings]);
+  const weekDates = useMemo(() => weekDays.map((_, i) => addDays(weekStart, i)), [weekDays, weekStart]);
+  const range = gridRange(settings);
+  const slots = slotTimes(settings);
+  const shownProfiles = useMemo(() => profiles.filter(p => familyMode || p.id === activeId), [profiles, familyMode, activeId]);
+
+  // In family mode every child's events are shown, so each one remembers whose it is.
+  // Events take the color of their category.
+  const events = useMemo(() => {
+    return shownProfiles.flatMap(p => p.events.flatMap(e => occurrencesInWeek(e, weekStart).map(o => ({ ...o, color: findCategory(categories, o.category)?.color ?? o.color, profileId: p.id }))));
+  }, [shownProfiles, weekStart, categories]);
+
+  // The legend lists this week's categories, filtered out or not; the '' id stands for uncategorized events.
+  const legend = useMemo(() => {
+    const used = new Set(events.map(e => findCategory(categories, e.category)?.id ?? ''));
+    return { categories: categories.filter(c => used.has(c.id)), other: used.has('') };
+  }, [events, categories]);
 
+  // A caregiver's view keeps only the events they drop off or pick up.
   const sortedEvents = useMemo(() => {
-    return [...events].sort((a, b) => {
-      if (a.day !== b.day) return DAYS.indexOf(a.day) - DAYS.indexOf(b.day);
-      return timeToRow(a.start) - timeToRow(a.start);
-    });
-  }, [events]);
+    const shown = events.filter(e => !hiddenCategories.includes(findCategory(categories, e.category)?.id ?? '') && (!caregiverView || assignedTo(e, caregiverView)));
+    return sortOccurrences(shown, weekDays);
+  }, [events, weekDays, categories, hiddenCategories, caregiverView]);
+
+  // Caregivers drive for every child, so clashes are looked for across the whole family's week.
+  const clashes = useMemo(() => {
+    const week = profiles.flatMap(p => p.events.flatMap(e => occurrencesInWeek(e, weekStart).map(o => ({ ...o, profileId: p.id }))));
+    return handoverClashes(week, settings.travelMinutes);
+  }, [profiles, weekStart, settings.travelMinutes]);
+  const shownClashes = caregiverView ? clashes.filter(c => c.caregiver === caregiverView) : clashes;
+
+  const columns = useMemo(() => weekDays.map(day => layoutDay(sortedEvents.filter(e => e.day === day), settings)), [sortedEvents, weekDays, settings]);
 
-  function resetForm() {
+  const dayView = settings.layout === 'day' || (settings.layout === 'auto' && width < NARROW_WIDTH);
+  // The day view stays inside the week in view, falling back to today or the week's first day.
+  const agendaDay = weekDates.includes(agendaDate) ? agendaDate : weekDates.includes(today) ? today : weekStart;
+  // The Now/Next countdown needs a clock that moves on its own.
+  useEffect(() => {
+    if (!dayView) return;
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, [dayView]);
+
+  // Keep the same week in view when the first day of the week changes.
+  function updateSettings(patch: Partial<Settings>) {
+    const next = { ...settings, ...patch };
+    if (next.firstHour > next.lastHour) return;
+    setSettings(next);
+    setWeekStart(startOfWeek(weekStart, next.weekStartsOn));
+  }
+  function showDay(date: string) {
+    setAgendaDate(date);
+    setWeekStart(startOfWeek(date, settings.weekStartsOn));
+  }
+  function dateOf(day: Day) {
+    return weekDates[weekDays.indexOf(day)];
+  }
+
+  function ownerOf(profileId: string) {
+    return profiles.find(p => p.id === profileId);
+  }
+  function findSeries(profileId: string, id: string) {
+    return ownerOf(profileId)?.events.find(e => e.id === id);
+  }
+  function updateProfile(id: string, patch: Partial<Profile>) {
+    setProfiles(prev => prev.map(p => (p.id === id ? { ...p, ...patch } : p)));
+  }
+  // Call before changing events; the label names the change in the undo/redo buttons.
+  function record(label: string) {
+    setHistory(h => ({ past: [...h.past, { label, events: snapshotEvents(profiles) }].slice(-HISTORY_LIMIT), future: [] }));
+  }
+  function undo() {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+    setHistory({ past: history.past.slice(0, -1), future: [{ label: entry.label, events: snapshotEvents(profiles) }, ...history.future] });
+    setProfiles(prev => restoreEvents(prev, entry.events));
+  }
+  function redo() {
+    const entry = history.future[0];
+    if (!entry) return;
+    setHistory({ past: [...history.past, { label: entry.label, events: snapshotEvents(profiles) }], future: history.future.slice(1) });
+    setProfiles(prev => restoreEvents(prev, entry.events));
+  }
+  function setAccent(c: string) { if (activeProfile) updateProfile(activeProfile.id, { accent: c }); }
+  function setBgColor(c: string) { if (activeProfile) updateProfile(activeProfile.id, { bgColor: c }); }
+  function setPhoto(uri: string | null) { if (activeProfile) updateProfile(activeProfile.id, { photo: uri }); }
+  function addProfile() {
+    const p = newProfile(t('childN', { n: profiles.length + 1 }), profiles.length);
+    setProfiles(prev => [...prev, p]);
+    setActiveId(p.id);
+    setProfileOpen(true);
+  }
+  function deleteProfile(id: string) {
+    if (profiles.length <= 1) return;
+    const rest = profiles.filter(p => p.id !== id);
+    setProfiles(rest);
+    setActiveId(rest[0].id);
+  }
+
+  function resetForm(day: Day = 'Monday', start = '09:00', end = '10:00') {
     setEditing({
       id: crypto.randomUUID(),
       title: '',
-      day: 'Monday',
-      start: '09:00',
-      end: '10:00',
-      category: 'School',
+      day,
+      start,
+      end,
+      category: '',
       color: accent,
       notes: '',
+      repeat: { days: [day], every: 1, from: weekStart },
     });
+    setEditingOwner(activeProfile?.id ?? profiles[0]?.id ?? null);
+    setEditingDate(null);
+    setEditScope('all');
   }
   function handleAdd() {
     resetForm();
+    setTaskDraft('');
     setOpen(true);
   }
-  function saveEvent() {
+  function handleAddAt(day: Day, rowIdx: number) {
+    const start = range.start + rowIdx * settings.slotMinutes;
+    resetForm(day, fromMinutes(start), fromMinutes(Math.min(start + 60, range.end)));
+    setTaskDraft('');
+    setOpen(true);
+  }
+  function handleEdit(o: Occurrence & { profileId: string }) {
+    const series = findSeries(o.profileId, o.id);
+    if (!series) return;
+    setCopyDays([]);
+    setEditing(series);
+    setEditingOwner(o.profileId);
+    setEditingDate(o.date);
+    setEditScope('all');
+    setTaskDraft('');
+    setOpen(true);
+  }
+  // Editing "this date" starts from the occurrence as shown; "whole series" from the series itself.
+  function chooseScope(scope: 'one' | 'all') {
+    const series = editingOwner && editing ? findSeries(editingOwner, editing.id) : undefined;
+    if (!series || !editingDate) return;
+    setEditScope(scope);
+    setEditing(scope === 'one' ? { ...series, ...series.changes?.[editingDate] } : series);
+  }
+  function setRepeatKind(kind: 'once' | 'weekly') {
     if (!editing) return;
-    const { title, start, end } = editing;
-    if (!title.trim()) { Alert.alert('Error', 'Please add a title'); return; }
-    if (start >= end) { Alert.alert('Error', 'End time must be after start time'); return; }
-    const overlapsWith = events.some(e => e.id !== editing.id && overlaps(e, editing));
-    if (overlapsWith) { Alert.alert('Warning', 'This overlaps another event on the same day.'); }
-    setEvents(prev => {
-      const exists = prev.find(e => e.id === editing.id);
-      if (exists) return prev.map(e => (e.id === editing.id ? editing : e));
-      return [...prev, editing];
-    });
+    if (kind === 'once') {
+      setEditing({ ...editing, repeat: undefined, date: dateOf(editing.day) });
+    } else {
+      setEditing({ ...editing, date: undefined, repeat: { days: [editing.day], every: 1, from: editing.date ?? weekStart } });
+    }
+  }
+  function pickDay(d: Day) {
+    if (!editing) return;
+    if (!editing.repeat) { setEditing({ ...editing, day: d, date: dateOf(d) }); return; }
+    const picked = editing.repeat.days.includes(d) ? editing.repeat.days.filter(x => x !== d) : [...editing.repeat.days, d];
+    const days = DAYS.filter(x => picked.includes(x));
+    setEditing({ ...editing, day: days[0] ?? editing.day, repeat: { ...editing.repeat, days } });
+  }
+  function saveEvent() {
+    if (!editing || !editingOwner) return;
+    const problem = validateEvent(editing, t);
+    if (problem) { notify(t('error'), problem); return; }
+    const series = findSeries(editingOwner, editing.id);
+    let saved = editing;
+    if (editScope === 'one' && series && editingDate) {
+      const keys = (['title', 'start', 'end', 'category', 'color', 'notes', 'dropOff', 'pickUp'] as const).filter(k => editing[k] !== series[k]);
+      const change: OccurrenceChange = Object.fromEntries(keys.map(k => [k, editing[k]]));
+      saved = { ...series, changes: { ...series.changes, [editingDate]: change } };
+    }
+    const mine = occurrencesInWeek(saved, weekStart);
+    const siblings = (ownerOf(editingOwner)?.events ?? []).filter(e => e.id !== saved.id).flatMap(e => occurrencesInWeek(e, weekStart));
+    const overlapsWith = mine.some(a => siblings.some(b => overlaps(a, b)));
+    if (overlapsWith) notify(t('warning'), t('overlapWarning'));
+    const family = profiles.flatMap(p => p.events.filter(e => e.id !== saved.id).flatMap(e => occurrencesInWeek(e, weekStart).map(o => ({ ...o, profileId: p.id }))));
+    const clashing = handoverClashes([...family, ...mine.map(o => ({ ...o, profileId: editingOwner }))], settings.travelMinutes)
+      .filter(c => c.first.event.id === saved.id || c.second.event.id === saved.id);
+    if (clashing.length) notify(t('warning'), clashing.map(clashText).join('\n'));
+    record(t(series ? 'historyEdit' : 'historyAdd', { title: saved.title }));
+    upsertEvent(editingOwner, saved);
     setOpen(false);
   }
+  // The owner can change in family mode, so drop the event everywhere else before upserting it.
+  function upsertEvent(ownerId: string, saved: EventItem) {
+    setProfiles(prev => prev.map(p => {
+      if (p.id !== ownerId) {
+        return p.events.some(e => e.id === saved.id) ? { ...p, events: p.events.filter(e => e.id !== saved.id) } : p;
+      }
+      const exists = p.events.find(e => e.id === saved.id);
+      if (exists) return { ...p, events: p.events.map(e => (e.id === saved.id ? saved : e)) };
+      return { ...p, events: [...p.events, saved] };
+    }));
+  }
+  function isDone(profileId: string, date: string, taskId: string) {
+    return !!ownerOf(profileId)?.done?.[date]?.includes(taskId);
+  }
+  // Ticks are kept per date, so every week starts fresh and past weeks still show what got done.
+  // Ticking something worth stars adds them to the ledger; unticking takes them back.
+  function toggleDone(profileId: string, date: string, item: { id: string; text: string; points?: number }) {
+    const ref = `${date}:${item.id}`;
+    setProfiles(prev => prev.map(p => {
+      if (p.id !== profileId) return p;
+      const ticked = p.done?.[date] ?? [];
+      const undo = ticked.includes(item.id);
+      const ledger = (p.ledger ?? []).filter(x => x.ref !== ref);
+      if (!undo && item.points) ledger.push({ id: crypto.randomUUID(), date, points: item.points, label: item.text, ref });
+      return { ...p, done: { ...p.done, [date]: undo ? ticked.filter(id => id !== item.id) : [...ticked, item.id] }, ledger };
+    }));
+  }
+  function addReward() {
+    const title = rewardDraft.title.trim(), cost = parsePoints(rewardDraft.cost);
+    if (!activeProfile || !title || !cost) { notify(t('reward'), t('rewardIncomplete')); return; }
+    updateProfile(activeProfile.id, { rewards: [...(activeProfile.rewards ?? []), { id: crypto.randomUUID(), title, cost }] });
+    setRewardDraft({ title: '', cost: '' });
+  }
+  function redeemReward(reward: Reward) {
+    if (!activeProfile) return;
+    const { id, name, ledger = [] } = activeProfile;
+    const balance = starBalance(ledger);
+    if (balance < reward.cost) { notify(t('notEnoughStars'), t('notEnoughStarsText', { reward: reward.title, cost: reward.cost, name, balance })); return; }
+    confirmAction(t('redeemReward'), t('redeemConfirm', { cost: reward.cost, reward: reward.title }), () => {
+      updateProfile(id, { ledger: [...ledger, { id: crypto.randomUUID(), date: today, points: -reward.cost, label: reward.title }] });
+    }, t);
+  }
+  function toggleCategory(id: string) {
+    setHiddenCategories(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  }
+  function addCategory() {
+    setCategories(prev => [...prev, { id: crypto.randomUUID(), name: t('categoryN', { n: prev.length + 1 }), color: ACCENTS[prev.length % ACCENTS.length], icon: CATEGORY_ICONS[0] }]);
+  }
+  // Events store their color too, so exports keep it; a new category color is copied onto them.
+  function updateCategory(id: string, patch: Partial<Category>) {
+    const category = categories.find(c => c.id === id);
+    setCategories(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
+    if (category && patch.color) {
+      setProfiles(prev => prev.map(p => ({ ...p, events: p.events.map(e => (findCategory([category], e.category) ? { ...e, color: patch.color! } : e)) })));
+    }
+  }
+  // Renaming rewrites the category on every child's events; renaming onto another category merges the two.
+  function renameCategory(id: string, name: string) {
+    setNameDrafts(({ [id]: _draft, ...rest }) => rest);
+    const category = categories.find(c => c.id === id);
+    if (!category || !name.trim() || name.trim() === category.name) return;
+    const other = findCategory(categories.filter(c => c.id !== id), name);
+    const to = other?.name ?? name.trim();
+    setCategories(prev => (other ? prev.filter(c => c.id !== id) : prev.map(c => (c.id === id ? { ...c, name: to } : c))));
+    setProfiles(prev => prev.map(p => ({ ...p, events: p.events.map(e => renameCategoryIn(e, category.name, to)) })));
+  }
+  function deleteCategory(category: Category) {
+    confirmAction(t('deleteCategory'), t('deleteCategoryConfirm', { name: category.name }), () => {
+      setCategories(prev => prev.filter(c => c.id !== category.id));
+      setProfiles(prev => prev.map(p => ({ ...p, events: p.events.map(e => ({ ...renameCategoryIn(e, category.name, ''), color: findCategory([category], e.category) ? category.color : e.color })) })));
+    }, t);
+  }
+  function addCaregiver() {
+    setCaregivers(prev => [...prev, { id: crypto.randomUUID(), name: t('caregiverN', { n: prev.length + 1 }), color: ACCENTS[prev.length % ACCENTS.length] }]);
+  }
+  function updateCaregiver(id: string, patch: Partial<Caregiver>) {
+    setCaregivers(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
+  }
+  function deleteCaregiver(caregiver: Caregiver) {
+    confirmAction(t('deleteCaregiver'), t('deleteCaregiverConfirm', { name: caregiver.name }), () => {
+      setCaregivers(prev => prev.filter(c => c.id !== caregiver.id));
+      setProfiles(prev => prev.map(p => ({ ...p, events: p.events.map(e => unassignCaregiver(e, caregiver.id)) })));
+      setCaregiverView(view => (view === caregiver.id ? null : view));
+    }, t);
+  }
+  // "Drop-off: Mom · Pick-up: Dad", or '' when nobody is assigned.
+  function caregiverLine(e: EventItem) {
+    const dropOff = findCaregiver(caregivers, e.dropOff), pickUp = findCaregiver(caregivers, e.pickUp);
+    return [dropOff && t('dropOffBy', { name: dropOff.name }), pickUp && t('pickUpBy', { name: pickUp.name })].filter(Boolean).join(' · ');
+  }
+  function clashText({ caregiver, first, second }: HandoverClash<Occurrence & { profileId: string }>) {
+    const handover = (h: typeof first) => t(h.duty === 'dropOff' ? 'handoverDropOff' : 'handoverPickUp', {
+      title: profiles.length > 1 ? `${h.event.title} · ${ownerOf(h.event.profileId)?.name ?? ''}` : h.event.title,
+      day: dayName(h.event.day, locale, 'short'),
+      time: formatTime(h.time, clock, locale),
+    });
+    return t('handoverClash', { name: findCaregiver(caregivers, caregiver)?.name ?? '', first: handover(first), second: handover(second) });
+  }
+  // Imported events may bring categories the registry does not know yet.
+  function registerCategories(incoming: EventItem[]) {
+    const gathered = withCategories(categories, incoming);
+    setCategories(gathered.categories);
+    return gathered.events;
+  }
+  function toggleCopyDay(d: Day) {
+    setCopyDays(prev => (prev.includes(d) ? prev.filter(x => x !== d) : [...prev, d]));
+  }
+  function copyToDays(ownerId: string, source: EventItem[]) {
+    const owner = ownerOf(ownerId);
+    if (!owner || !copyDays.length || !source.length) return;
+    record(source.length === 1 ? t('historyCopy', { title: source[0].title }) : t('historyCopyN', { n: source.length }));
+    const copies = copyDays.flatMap(d => source.map(e => copyEvent(e, d, dateOf(d))));
+    updateProfile(ownerId, { events: [...owner.events, ...copies] });
+    setCopyDays([]);
+  }
+  // A day's events as they are that date: per-date changes applied, each copied as its own series or one-off.
+  function dayEvents(profile: Profile, date: string) {
+    return profile.events.flatMap(e => occurrencesInWeek(e, weekStart).filter(o => o.date === date).map(o => ({ ...o, repeat: e.repeat })));
+  }
+  function clearDay(profile: Profile, date: string) {
+    confirmAction(t('clearDay'), t('clearDayConfirm', { name: profile.name, date: formatDate(date, locale, true) }), () => {
+      record(t('historyClear', { date: formatDate(date, locale) }));
+      updateProfile(profile.id, { events: clearDates(profile.events, date, date) });
+    }, t);
+  }
+  function saveTemplate() {
+    const name = templateName.trim();
+    if (!activeProfile || !name) { notify(t('template'), t('templateNeedsName')); return; }
+    const week = activeProfile.events.flatMap(e => occurrencesInWeek(e, weekStart));
+    if (!week.length) { notify(t('template'), t('templateWeekEmpty')); return; }
+    setTemplates(prev => [...prev, templateFromWeek(name, week)]);
+    setTemplateName('');
+  }
+  // Replace clears this week, or everything from this week on, before the template goes in.
+  function applyTemplate(mode: 'merge' | 'replace') {
+    if (!pendingTemplate || !activeProfile) return;
+    const incoming = registerCategories(eventsFromTemplate(pendingTemplate, weekStart, templateSpan));
+    const kept = mode === 'replace' ? clearDates(activeProfile.events, weekStart, templateSpan === 'week' ? addDays(weekStart, 6) : undefined) : activeProfile.events;
+    record(t('historyApply', { name: pendingTemplate.name }));
+    updateProfile(activeProfile.id, { events: [...kept, ...incoming] });
+    setPendingTemplate(null);
+    setTemplatesOpen(false);
+  }
+  function setDayTasks(day: Day, tasks: Task[]) {
+    if (activeProfile) updateProfile(activeProfile.id, { dayTasks: { ...activeProfile.dayTasks, [day]: tasks } });
+  }
+  function addTaskTo(tasks: Task[] | undefined) {
+    const text = taskDraft.trim();
+    setTaskDraft('');
+    return text ? [...(tasks ?? []), { id: crypto.randomUUID(), text }] : tasks ?? [];
+  }
   function deleteEvent(id: string) {
-    setEvents(prev => prev.filter(e => e.id !== id));
+    record(t('historyDelete', { title: profiles.flatMap(p => p.events).find(e => e.id === id)?.title ?? t('event') }));
+    setProfiles(prev => prev.map(p => ({ ...p, events: p.events.filter(e => e.id !== id) })));
+  }
+  // Dragging changes only the date that was dragged; the edit modal is the place to change a whole series.
+  function dropOccurrence(o: Occurrence & { profileId: string }, to: Slot) {
+    const series = findSeries(o.profileId, o.id);
+    if (!series) return;
+    record(t('historyMove', { title: o.title }));
+    const toDate = addDays(o.date, weekDays.indexOf(to.day) - weekDays.indexOf(o.day));
+    moveOccurrence(series, o.date, to, toDate).forEach(e => upsertEvent(o.profileId, e));
+  }
+  function startDrag(e: Occurrence & { profileId: string }, mode: 'move' | 'resize', ev: GestureResponderEvent) {
+    dragRef.current = { event: e, mode, x0: ev.nativeEvent.pageX, y0: ev.nativeEvent.pageY, to: null };
+  }
+  function moveDrag(ev: GestureResponderEvent) {
+    const d = dragRef.current;
+    if (!d) return;
+    const dx = (ev.nativeEvent.pageX - d.x0) * (rtl ? -1 : 1), dy = ev.nativeEvent.pageY - d.y0;
+    if (!d.to && Math.hypot(dx, dy) < 6) return;
+    const to = dragResult(d.event, d.mode, dx, dy, { step: settings.slotMinutes === 60 ? 30 : 15, pxPerMinute: rowHeight / settings.slotMinutes, range, days: weekDays });
+    const moved = { ...d.event, ...to };
+    const clash = events.some(o => o.profileId === d.event.profileId && !(o.id === d.event.id && o.date === d.event.date) && overlaps(o, moved));
+    d.to = to;
+    setDrag({ key: `${d.event.id}:${d.event.date}`, to, clash });
+  }
+  // A press that never moved past the threshold is a tap and opens the editor.
+  function endDrag() {
+    const d = dragRef.current;
+    dragRef.current = null;
+    setDrag(null);
+    if (!d) return;
+    if (!d.to) handleEdit(d.event);
+    else if (d.to.day !== d.event.day || d.to.start !== d.event.start || d.to.end !== d.event.end) dropOccurrence(d.event, d.to);
+  }
+  function cancelDrag() {
+    dragRef.current = null;
+    setDrag(null);
+  }
+  // A sideways swipe on the day view turns the day, towards the reading direction's end for the next one;
+  // mostly vertical moves are left to scrolling.
+  function startSwipe(ev: GestureResponderEvent) {
+    swipeRef.current = { x0: ev.nativeEvent.pageX, y0: ev.nativeEvent.pageY };
+    return false;
+  }
+  function isSwipe(ev: GestureResponderEvent) {
+    const s = swipeRef.current;
+    if (!s) return false;
+    const dx = ev.nativeEvent.pageX - s.x0, dy = ev.nativeEvent.pageY - s.y0;
+    return Math.abs(dx) > 24 && Math.abs(dx) > 2 * Math.abs(dy);
+  }
+  function endSwipe(ev: GestureResponderEvent) {
+    const s = swipeRef.current;
+    swipeRef.current = null;
+    if (!s) return;
+    const dx = ev.nativeEvent.pageX - s.x0;
+    if (Math.abs(dx) > 60) showDay(addDays(agendaDay, (dx < 0) !== rtl ? 1 : -1));
+  }
+  function skipOccurrence(ownerId: string, id: string, date: string) {
+    const series = findSeries(ownerId, id);
+    if (!series) return;
+    record(t('historySkip', { title: series.title, date: formatDate(date, locale) }));
+    const { [date]: _dropped, ...changes } = series.changes ?? {};
+    upsertEvent(ownerId, { ...series, skip: [...(series.skip ?? []), date], changes });
   }
 
+  // One child per file, so the export can be imported back into a child (the file has no owner column).
   function exportCSV() {
-    const header = ['title','day','start','end','category','color','notes'];
-    const rows = events.map(e => header.map(h => (e as any)[h] ?? ''));
-    const csv = [header.join(','), ...rows.map(r => r.map(v => `"${String(v).replaceAll('"','""')}"`).join(','))].join('\n');
+    if (!activeProfile) return;
+    const csv = toCSV(activeProfile.events);
     if (Platform.OS === 'web') {
-      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url; a.download = 'kids-weekly-planner.csv'; a.click();
-      URL.revokeObjectURL(url);
+      downloadWeb(csv, 'kids-weekly-planner.csv', 'text/csv;charset=utf-8;');
     } else {
-      Alert.alert('Not supported', 'CSV export is available on web.');
+      Alert.alert(t('notSupported'), t('csvWebOnly'));
     }
   }
 
   function importCSVWeb(file: File) {
+    const owner = activeProfile;
+    if (!owner) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        setCsvPreview(previewCSV(String(reader.result), owner.events, owner.accent, t));
+      } catch (err) {
+        notify(t('error'), t('csvFailed', { message: (err as Error).message }));
+      }
+    };
+    reader.readAsText(file);
+  }
+  // Merge keeps the child's other events and lets imported rows win over their duplicates.
+  function applyCSV(mode: 'replace' | 'merge') {
+    if (!csvPreview || !activeProfile) return;
+    const incoming = registerCategories(withFreeIds(activeProfile.id, csvPreview.valid));
+    record(t('historyCsv'));
+    if (mode === 'replace') {
+      updateProfile(activeProfile.id, { events: incoming });
+    } else {
+      const replaced = new Set(csvPreview.duplicates.map(d => d.matchId));
+      const ids = new Set(incoming.map(e => e.id));
+      updateProfile(activeProfile.id, { events: [...activeProfile.events.filter(e => !replaced.has(e.id) && !ids.has(e.id)), ...incoming] });
+    }
+    setCsvPreview(null);
+  }
+  // An id already used by another child would make saving one event remove the other, so re-key those.
+  function withFreeIds(ownerId: string, incoming: EventItem[]) {
+    const taken = new Set(profiles.filter(p => p.id !== ownerId).flatMap(p => p.events.map(e => e.id)));
+    return incoming.map(e => (taken.has(e.id) ? { ...e, id: crypto.randomUUID() } : e));
+  }
+
+  function exportICS() {
+    const ics = toICS(shownProfiles.flatMap(p => p.events), activeProfile ? `${title} – ${activeProfile.name}` : title);
+    if (Platform.OS === 'web') {
+      downloadWeb(ics, 'kids-weekly-planner.ics', 'text/calendar;charset=utf-8;');
+    } else {
+      Alert.alert(t('notSupported'), t('icsWebOnly'));
+    }
+  }
+
+  // Imported events are merged into the current child; re-importing our own export updates in place by UID.
+  function importICSWeb(file: File) {
+    const owner = activeProfile;
+    if (!owner) return;
     const reader = new FileReader();
     reader.onload = () => {
       try {
-        const text = String(reader.result);
-        const lines = text.split(/\r?\n/).filter(Boolean);
-        const [h, ...rest] = lines;
-        const cols = h.split(',').map(x => x.replaceAll('"','').trim());
-        const out: EventItem[] = rest.map(line => {
-          const items = line.match(/\"([^\"]*)\"|[^,]+/g)?.map(x => x.replaceAll('"','')) || [];
-          const obj: any = {};
-          cols.forEach((c, i) => (obj[c] = items[i] ?? ''));
-          obj.id = crypto.randomUUID();
-          return obj as EventItem;
-        });
-        setEvents(out);
-        Alert.alert('Imported', 'Imported events from CSV');
-      } catch {
-        Alert.alert('Error', 'Failed to import CSV');
+        const { events: parsed, summary } = parseICS(String(reader.result), owner.accent, t, range);
+        const incoming = registerCategories(withFreeIds(owner.id, parsed));
+        const ids = new Set(incoming.map(e => e.id));
+        record(t('historyIcs'));
+        updateProfile(owner.id, { events: [...owner.events.filter(e => !ids.has(e.id)), ...incoming] });
+        setImportSummary(summary);
+      } catch (err) {
+        notify(t('error'), t('icsFailed', { message: (err as Error).message }));
       }
     };
     reader.readAsText(file);
   }
 
+  function savePin() {
+    if (!/^\d{4,8}$/.test(pinDraft.pin)) {
+      notify(t('parentPin'), t('pinDigits'));
+      return false;
+    }
+    if (pinDraft.pin !== pinDraft.confirm) {
+      notify(t('parentPin'), t('pinMismatch'));
+      return false;
+    }
+    const salt = crypto.randomUUID();
+    setLock({ salt, hash: hashPin(pinDraft.pin, salt) });
+    setPinDraft({ pin: '', confirm: '' });
+    return true;
+  }
+  function enterKidMode() {
+    if (!lock && !savePin()) return;
+    setKidMode(true);
+    setLockOpen(false);
+  }
+  function unlock() {
+    if (lock && hashPin(pinDraft.pin, lock.salt) !== lock.hash) notify(t('parentMode'), t('pinWrong'));
+    else {
+      setKidMode(false);
+      setLockOpen(false);
+    }
+    setPinDraft({ pin: '', confirm: '' });
+  }
+
+  function currentDoc(): PlannerDoc {
+    return { version: DOC_VERSION, title, profiles, activeId, settings, categories, templates, caregivers, lock, kidMode };
+  }
+  function exportBackup() {
+    const json = toBackup(currentDoc());
+    if (Platform.OS === 'web') {
+      downloadWeb(json, `kids-weekly-planner-backup-${today}.json`, 'application/json');
+    } else {
+      Share.share({ title: t('backupShareTitle'), message: json });
+    }
+  }
+  // Both a backup and a shared-week link can be pasted into the restore box.
+  function readRestore(text: string) {
+    try {
+      const week = weekFromText(text, t);
+      if (week) openSharedWeek(week);
+      else setBackupPreview(parseBackup(text, t));
+      setRestoreOpen(false);
+      setRestoreText('');
+    } catch (err) {
+      notify(t('restore'), (err as Error).message);
+    }
+  }
+  function restoreFileWeb(file: File) {
+    const reader = new FileReader();
+    reader.onload = () => readRestore(String(reader.result));
+    reader.readAsText(file);
+  }
+  function applyBackup(mode: 'replace' | 'merge') {
+    if (!backupPreview) return;
+    const doc = mode === 'replace' ? backupPreview : mergeDocs(currentDoc(), backupPreview);
+    setTitle(doc.title);
+    setProfiles(doc.profiles);
+    setActiveId(doc.activeId);
+    setCategories(doc.categories);
+    setTemplates(doc.templates);
+    setCaregivers(doc.caregivers);
+    if (mode === 'replace') {
+      setSettings(doc.settings);
+      setLock(doc.lock);
+      setWeekStart(startOfWeek(weekStart, doc.settings.weekStartsOn));
+    }
+    // The history refers to events the backup may have replaced.
+    setHistory({ past: [], future: [] });
+    setBackupPreview(null);
+  }
+  async function shareWeek() {
+    const name = activeProfile?.name ?? title;
+    const url = `${Platform.OS === 'web' ? window.location.origin + window.location.pathname : SHARE_URL}#week=${encodeWeek(name, weekStart, sortedEvents)}`;
+    const message = t('shareMessage', { name, date: formatDate(weekStart, locale, true) });
+    try {
+      if (Platform.OS !== 'web') await Share.share({ message: `${message}\n${url}` });
+      else if (navigator.share) await navigator.share({ title: message, url });
+      else {
+        await navigator.clipboard.writeText(url);
+        notify(t('linkCopied'), t('linkCopiedText'));
+      }
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') notify(t('shareWeek'), (err as Error).message);
+    }
+  }
+  function openSharedWeek(week: SharedWeek) {
+    setShareTarget(activeProfile?.id ?? profiles[0]?.id ?? null);
+    setSharedWeek(week);
+  }
+  function importSharedWeek() {
+    const owner = profiles.find(p => p.id === shareTarget);
+    if (!sharedWeek || !owner) return;
+    const incoming = registerCategories(withFreeIds(owner.id, sharedWeek.events));
+    record(t('historyShared'));
+    updateProfile(owner.id, { events: [...owner.events, ...incoming] });
+    setWeekStart(startOfWeek(sharedWeek.weekStart, settings.weekStartsOn));
+    setSharedWeek(null);
+  }
+
   function handlePhotoUpload() {
     if (Platform.OS === 'web') {
       const input = document.createElement('input');
@@ -171,65 +821,57 @@ export default function KidsWeeklyPlanner() {
       };
       input.click();
     } else {
-      Alert.alert('Not supported', 'Photo upload is available on web.');
+      Alert.alert(t('notSupported'), t('photoWebOnly'));
     }
   }
 
-  function printPDF() {
+  // Balance is measured on the whole week, including categories filtered out of the grid.
+  function statsFor(profileId: string) {
+    return weekStats(events.filter(e => e.profileId === profileId), categories, weekStart, range, t);
+  }
+
+  // Family prints tag each block with the child and use their accent, like the grid does.
+  function printEvents(): PrintEvent[] {
+    return sortedEvents.map(e => {
+      const owner = ownerOf(e.profileId);
+      const shown = { ...e, caregivers: caregiverLine(e) || undefined };
+      return familyMode && owner ? { ...shown, color: owner.accent, owner: owner.name } : shown;
+    });
+  }
+  function printLegend() {
+    if (familyMode) return profiles.map(p => ({ label: p.name, color: p.accent }));
+    const seen = new Map<string, string>();
+    sortedEvents.forEach(e => {
+      const category = findCategory(categories, e.category);
+      const label = category ? `${category.icon} ${category.name}` : t('other');
+      if (!seen.has(label)) seen.set(label, e.color);
+    });
+    return [...seen].map(([label, color]) => ({ label, color }));
+  }
+
+  async function printPDF() {
+    setPrintOpen(false);
+    const html = printHTML({
+      title: [title, activeProfile?.name, findCaregiver(caregivers, caregiverView ?? undefined)?.name].filter(Boolean).join(' – '),
+      weekStart,
+      events: printEvents(),
+      legend: printLegend(),
+      accent,
+      bgColor,
+      photo,
+      settings,
+      stats: shownProfiles.map(p => ({ name: p.name, stats: statsFor(p.id) })),
+      warnings: shownClashes.map(clashText),
+      t,
+      locale,
+      clock,
+      rtl,
+    }, printOptions);
     if (Platform.OS === 'web') {
       // Create a new window with the planner content for printing
       const printWindow = window.open('', '_blank');
       if (printWindow) {
-        const printContent = `
-          <!DOCTYPE html>
-          <html>
-          <head>
-            <title>Kids Weekly Planner</title>
-            <style>
-              body { font-family: Arial, sans-serif; margin: 20px; background: ${bgColor}; }
-              .planner-container { background: white; padding: 20px; border-radius: 12px; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
-              .header { display: flex; align-items: center; margin-bottom: 20px; }
-              .title { font-size: 24px; font-weight: bold; color: ${accent}; margin-left: 15px; }
-              .grid { display: grid; grid-template-columns: 120px repeat(7, 160px); gap: 1px; }
-              .day-header { background: ${accent}; color: white; padding: 10px; text-align: center; font-weight: bold; }
-              .time-header { background: #f8fafc; padding: 10px; text-align: right; font-size: 12px; color: #64748b; }
-              .time-slot { background: #f8fafc; border: 1px solid #e5e7eb; height: 48px; }
-              .event { background: ${accent}1A; border: 1px solid ${accent}; border-radius: 8px; padding: 8px; margin: 2px; font-size: 12px; }
-              .event-title { font-weight: bold; color: ${accent}; }
-              .event-time { color: #334155; font-size: 11px; }
-              .event-category { color: #475569; font-style: italic; font-size: 11px; }
-            </style>
-          </head>
-          <body>
-            <div class="planner-container">
-              <div class="header">
-                <div class="title">${title}</div>
-              </div>
-              <div class="grid">
-                <div class="time-header"></div>
-                ${DAYS.map(day => `<div class="day-header">${day}</div>`).join('')}
-                ${(denseHours ? Array.from({ length: HOURS.length * 2 }, (_, i) => 7 + i * 0.5) : HOURS).map(h => `
-                  <div class="time-slot" style="display: flex; align-items: center; justify-content: flex-end; padding-right: 8px;">
-                    <span style="font-size: 12px; color: #64748b;">${formatHour(h)}</span>
-                  </div>
-                  ${DAYS.map(day => `<div class="time-slot"></div>`).join('')}
-                `).join('')}
-              </div>
-              <div style="margin-top: 20px;">
-                ${sortedEvents.map(event => `
-                  <div class="event" style="margin-bottom: 10px;">
-                    <div class="event-title">${event.title}</div>
-                    <div class="event-time">${event.start} - ${event.end} on ${event.day}</div>
-                    ${event.category ? `<div class="event-category">${event.category}</div>` : ''}
-                    ${event.notes ? `<div style="color: #475569; font-size: 11px; margin-top: 4px;">${event.notes}</div>` : ''}
-                  </div>
-                `).join('')}
-              </div>
-            </div>
-          </body>
-          </html>
-        `;
-        printWindow.document.write(printContent);
+        printWindow.document.write(html);
         printWindow.document.close();
         printWindow.focus();
         setTimeout(() => {
@@ -238,92 +880,353 @@ export default function KidsWeeklyPlanner() {
         }, 500);
       }
     } else {
-      Alert.alert('Not supported', 'Print is available on web.');
+      try {
+        await Print.printAsync({ html, orientation: printOptions.orientation === 'landscape' ? Print.Orientation.landscape : Print.Orientation.portrait });
+      } catch (err) {
+        notify(t('error'), t('printFailed', { message: (err as Error).message }));
+      }
     }
   }
 
   const rowHeight = 48;
+  const lastChange = history.past[history.past.length - 1];
+
+  if (status !== 'ready') {
+    return (
+      <View style={[styles.screen, styles.centered]}>
+        {status === 'loading' ? <Text style={styles.label}>{t('loadingPlanner')}</Text> : (<>
+          <Text style={styles.modalTitle}>{t('loadFailed')}</Text>
+          <Text style={styles.label}>{loadError}</Text>
+          <Pressable onPress={load} style={[styles.btn, { backgroundColor: defaultAccent, marginTop: 12 }]}><Text style={{ color: '#fff' }}>{t('tryAgain')}</Text></Pressable>
+        </>)}
+      </View>
+    );
+  }
 
   return (
-    <View style={[styles.screen, { backgroundColor: bgColor }]}>
+    <View style={[styles.screen, { backgroundColor: bgColor, direction: rtl ? 'rtl' : 'ltr' }]}>
       <View style={styles.header}>
-        <View style={styles.photoAndTitle}>
-          <Pressable onPress={handlePhotoUpload} style={[styles.photoWrapper, { borderColor: accent }]}>
+        {!!saveError && (
+          <View style={styles.errorBanner}>
+            <Text style={styles.errorText}>{saveError}</Text>
+            <Pressable onPress={() => setSaveAttempt(n => n + 1)} style={styles.chipOutline}><Text style={styles.chipOutlineText}>{t('retry')}</Text></Pressable>
+          </View>
+        )}
+        <View style={styles.controlsRow}>
+          {profiles.map(p => (
+            <Pressable
+              key={p.id}
+              onPress={() => setActiveId(p.id)}
+              onLongPress={kidMode ? undefined : () => { setActiveId(p.id); setProfileOpen(true); }}
+              style={[styles.profileChip, { borderColor: p.accent, backgroundColor: p.id === activeId ? p.accent : '#fff' }]}
+            >
+              <Text style={{ color: p.id === activeId ? '#fff' : p.accent, fontWeight: '600' }}>{p.name}</Text>
+            </Pressable>
+          ))}
+          {profiles.length > 1 && (
+            <Pressable onPress={() => setActiveId(FAMILY)} style={[styles.profileChip, { borderColor: '#0f172a', backgroundColor: familyMode ? '#0f172a' : '#fff' }]}>
+              <Text style={{ color: familyMode ? '#fff' : '#0f172a', fontWeight: '600' }}>{t('family')}</Text>
+            </Pressable>
+          )}
+          {!!activeProfile && !kidMode && (
+            <Pressable style={styles.chipOutline} onPress={() => setProfileOpen(true)}>
+              <Text style={styles.chipOutlineText}>{t('editChild')}</Text>
+            </Pressable>
+          )}
+          {!kidMode && (
+            <Pressable style={styles.chipOutline} onPress={addProfile}>
+              <Text style={styles.chipOutlineText}>{t('addChild')}</Text>
+            </Pressable>
+          )}
+          <Pressable style={kidMode ? [styles.chip, { backgroundColor: accent }] : styles.chipOutline} onPress={() => { setPinDraft({ pin: '', confirm: '' }); setLockOpen(true); }}>
+            <Text style={kidMode ? styles.chipText : styles.chipOutlineText}>{t(kidMode ? 'parentModeChip' : 'kidMode')}</Text>
+          </Pressable>
+        </View>
+        <View style={[styles.photoAndTitle, { marginTop: 8 }]}>
+          <Pressable onPress={handlePhotoUpload} disabled={familyMode || kidMode} style={[styles.photoWrapper, { borderColor: accent }]}>
             {photo ? (
               <Image source={{ uri: photo }} style={styles.photo} />
             ) : (
-              <View style={styles.photoPlaceholder}><Text style={{ color: '#94a3b8' }}>Tap to add photo</Text></View>
+              <View style={styles.photoPlaceholder}><Text style={{ color: '#94a3b8' }}>{familyMode ? t('family') : kidMode ? '' : t('tapToAddPhoto')}</Text></View>
             )}
           </Pressable>
+          {!!activeProfile && (
+            <Pressable onPress={() => setRewardsOpen(true)} style={[styles.starPill, { borderColor: accent }]}>
+              <Text style={[styles.starCount, { color: accent }]}>★ {starsEarned(activeProfile.ledger, weekStart, addDays(weekStart, 6))}</Text>
+              <Text style={styles.headerDate}>{t('thisWeek')}</Text>
+            </Pressable>
+          )}
           <View style={{ flex: 1 }}>
-            <TextInput
-              value={title}
-              onChangeText={setTitle}
-              placeholder="Kids Weekly Planner"
-              style={[styles.titleInput]}
-            />
+            {kidMode ? (
+              <Text style={styles.titleInput}>{title || t('appTitle')}</Text>
+            ) : (
+              <TextInput
+                value={title}
+                onChangeText={setTitle}
+                placeholder={t('appTitle')}
+                style={[styles.titleInput]}
+              />
+            )}
             <View style={styles.controlsRow}>
+              {!kidMode && (<>
               <Pressable style={[styles.chip, { backgroundColor: accent }]} onPress={handleAdd}>
-                <Text style={styles.chipText}>Add Event</Text>
+                <Text style={styles.chipText}>{t('addEvent')}</Text>
               </Pressable>
-              <Pressable style={styles.chipOutline} onPress={exportCSV}>
-                <Text style={styles.chipOutlineText}>Export CSV</Text>
+              <Pressable disabled={!lastChange} onPress={undo} style={[styles.chipOutline, !lastChange && styles.disabled]}>
+                <Text style={styles.chipOutlineText} numberOfLines={1}>{t('undo')}{lastChange ? ` ${lastChange.label}` : ''}</Text>
               </Pressable>
-              {Platform.OS === 'web' && (
-                <Pressable
-                  style={styles.chipOutline}
-                  onPress={() => {
-                    const input = document.createElement('input');
-                    input.type = 'file';
-                    input.accept = '.csv,text/csv';
-                    input.onchange = (e: any) => {
-                      const f: File | undefined = e.target?.files?.[0];
-                      if (f) importCSVWeb(f);
-                    };
-                    input.click();
-                  }}
-                >
-                  <Text style={styles.chipOutlineText}>Import CSV</Text>
+              <Pressable disabled={!history.future.length} onPress={redo} style={[styles.chipOutline, !history.future.length && styles.disabled]}>
+                <Text style={styles.chipOutlineText} numberOfLines={1}>{t('redo')}{history.future.length ? ` ${history.future[0].label}` : ''}</Text>
+              </Pressable>
+              {!familyMode && (
+                <Pressable style={styles.chipOutline} onPress={exportCSV}>
+                  <Text style={styles.chipOutlineText}>{t('exportCsv')}</Text>
                 </Pressable>
               )}
-              <Pressable style={styles.chipOutline} onPress={printPDF}>
-                <Text style={styles.chipOutlineText}>Print / PDF</Text>
+              {Platform.OS === 'web' && !familyMode && (
+                <Pressable style={styles.chipOutline} onPress={() => pickFileWeb('.csv,text/csv', importCSVWeb)}>
+                  <Text style={styles.chipOutlineText}>{t('importCsv')}</Text>
+                </Pressable>
+              )}
+              <Pressable style={styles.chipOutline} onPress={exportICS}>
+                <Text style={styles.chipOutlineText}>{t('exportIcs')}</Text>
+              </Pressable>
+              {Platform.OS === 'web' && !familyMode && (
+                <Pressable style={styles.chipOutline} onPress={() => pickFileWeb('.ics,text/calendar', importICSWeb)}>
+                  <Text style={styles.chipOutlineText}>{t('importIcs')}</Text>
+                </Pressable>
+              )}
+              </>)}
+              <Pressable style={styles.chipOutline} onPress={() => setPrintOpen(true)}>
+                <Text style={styles.chipOutlineText}>{t('printPdf')}</Text>
+              </Pressable>
+              {!familyMode && !kidMode && (
+                <Pressable style={styles.chipOutline} onPress={() => setTemplatesOpen(true)}>
+                  <Text style={styles.chipOutlineText}>{t('templates')}</Text>
+                </Pressable>
+              )}
+              <Pressable style={styles.chipOutline} onPress={() => setStatsOpen(true)}>
+                <Text style={styles.chipOutlineText}>{t('weekBalance')}</Text>
+              </Pressable>
+              {!kidMode && (<>
+              <Pressable style={styles.chipOutline} onPress={shareWeek}>
+                <Text style={styles.chipOutlineText}>{t('shareWeek')}</Text>
               </Pressable>
+              <Pressable style={styles.chipOutline} onPress={exportBackup}>
+                <Text style={styles.chipOutlineText}>{t('backup')}</Text>
+              </Pressable>
+              <Pressable style={styles.chipOutline} onPress={() => setRestoreOpen(true)}>
+                <Text style={styles.chipOutlineText}>{t('restore')}</Text>
+              </Pressable>
+              </>)}
             </View>
+            {!kidMode && (
             <View style={styles.controlsRow}>
-              <Text style={styles.label}>Half-hour rows</Text>
-              <Switch value={denseHours} onValueChange={setDenseHours} />
+              <Pressable style={styles.chipOutline} onPress={() => setSettingsOpen(true)}>
+                <Text style={styles.chipOutlineText}>{t('gridSettings')}</Text>
+              </Pressable>
+              <Text style={styles.headerDate}>{t('gridSummary', { start: formatTime(fromMinutes(range.start), clock, locale), end: formatTime(fromMinutes(range.end), clock, locale), n: settings.slotMinutes })}</Text>
             </View>
+            )}
+            {!familyMode && !kidMode && (<>
             <View style={[styles.controlsRow, { marginTop: 6 }]}>
-              <Text style={styles.label}>Accent</Text>
+              <Text style={styles.label}>{t('accent')}</Text>
               <View style={styles.colorRow}>
-                {['#2563eb','#ef4444','#22c55e','#06b6d4','#f59e0b','#8b5cf6','#14b8a6','#e11d48'].map(c => (
+                {ACCENTS.map(c => (
                   <Pressable key={c} onPress={() => setAccent(c)} style={[styles.colorDot, { backgroundColor: c, borderColor: c === accent ? '#111827' : '#e5e7eb' }]} />
                 ))}
               </View>
             </View>
             <View style={[styles.controlsRow, { marginTop: 6 }]}>
-              <Text style={styles.label}>Background</Text>
+              <Text style={styles.label}>{t('background')}</Text>
               <View style={styles.colorRow}>
-                {['#f8fafc','#fef2f2','#f0fdf4','#f0f9ff','#fffbeb','#faf5ff','#f0fdfa','#fef7f7'].map(c => (
+                {BACKGROUNDS.map(c => (
                   <Pressable key={c} onPress={() => setBgColor(c)} style={[styles.colorDot, { backgroundColor: c, borderColor: c === bgColor ? '#111827' : '#e5e7eb' }]} />
                 ))}
               </View>
             </View>
+            </>)}
           </View>
         </View>
       </View>
 
       <View style={styles.body}>
+        <View style={[styles.controlsRow, { marginTop: 0, marginBottom: 8 }]}>
+          <Pressable style={styles.chipOutline} onPress={() => (dayView ? showDay(addDays(agendaDay, -1)) : setWeekStart(addDays(weekStart, -7)))}>
+            <Text style={styles.chipOutlineText}>{t('prev')}</Text>
+          </Pressable>
+          <Pressable style={styles.chipOutline} onPress={() => showDay(today)}>
+            <Text style={styles.chipOutlineText}>{t('today')}</Text>
+          </Pressable>
+          <Pressable style={styles.chipOutline} onPress={() => (dayView ? showDay(addDays(agendaDay, 1)) : setWeekStart(addDays(weekStart, 7)))}>
+            <Text style={styles.chipOutlineText}>{t('next')}</Text>
+          </Pressable>
+          <Text style={styles.headerText}>
+            {dayView ? `${dayName(dayOf(agendaDay), locale)} ${formatDate(agendaDay, locale, true)}` : `${formatDate(weekStart, locale)} – ${formatDate(addDays(weekStart, 6), locale, true)}`}
+          </Text>
+          <Pressable style={styles.chipOutline} onPress={() => updateSettings({ layout: dayView ? 'week' : 'day' })}>
+            <Text style={styles.chipOutlineText}>{t(dayView ? 'weekView' : 'dayView')}</Text>
+          </Pressable>
+        </View>
+        <View style={[styles.controlsRow, { marginTop: 0, marginBottom: 8 }]}>
+          {[...legend.categories, ...(legend.other ? [{ id: '', name: t('other'), color: '#94a3b8', icon: '' }] : [])].map(c => {
+            const hidden = hiddenCategories.includes(c.id);
+            return (
+              <Pressable key={c.id} onPress={() => toggleCategory(c.id)} style={[styles.legendChip, { borderColor: c.color, backgroundColor: hidden ? '#fff' : c.color + '1A' }, hidden && styles.disabled]}>
+                <Text style={{ color: c.color, textDecorationLine: hidden ? 'line-through' : 'none' }}>{c.icon ? `${c.icon} ` : ''}{c.name}</Text>
+              </Pressable>
+            );
+          })}
+          {!kidMode && (
+            <Pressable style={styles.chipOutline} onPress={() => setCategoriesOpen(true)}>
+              <Text style={styles.chipOutlineText}>{t('categoriesMenu')}</Text>
+            </Pressable>
+          )}
+          {!kidMode && (
+            <Pressable style={styles.chipOutline} onPress={() => setCaregiversOpen(true)}>
+              <Text style={styles.chipOutlineText}>{t('caregiversMenu')}</Text>
+            </Pressable>
+          )}
+        </View>
+        {!!caregivers.length && (
+          <View style={[styles.controlsRow, { marginTop: 0, marginBottom: 8 }]}>
+            {caregivers.map(c => {
+              const active = caregiverView === c.id;
+              return (
+                <Pressable key={c.id} onPress={() => setCaregiverView(active ? null : c.id)} style={[styles.legendChip, { borderColor: c.color, backgroundColor: active ? c.color : '#fff' }]}>
+                  <Text style={{ color: active ? '#fff' : c.color }}>🚗 {c.name}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        )}
+        {!kidMode && !!shownClashes.length && (
+          <View style={styles.errorBanner}>
+            <Text style={styles.errorText}>{shownClashes.map(c => `⚠ ${clashText(c)}`).join('\n')}</Text>
+          </View>
+        )}
+        {!!activeProfile && !activeProfile.events.length && !kidMode && (
+          <View style={[styles.controlsRow, { marginTop: 0, marginBottom: 8 }]}>
+            <Text style={styles.label}>{t('nothingPlannedFor', { name: activeProfile.name })}</Text>
+            <Pressable style={[styles.chip, { backgroundColor: accent }]} onPress={() => setTemplatesOpen(true)}>
+              <Text style={styles.chipText}>{t('startFromTemplate')}</Text>
+            </Pressable>
+          </View>
+        )}
+        {dayView ? (() => {
+          const day = weekDays[weekDates.indexOf(agendaDay)];
+          const agenda = sortedEvents.filter(e => e.date === agendaDay);
+          const minutes = now.getHours() * 60 + now.getMinutes();
+          const { now: current, next } = nowNext(events.filter(e => e.date === today), minutes);
+          const tint = (e: Occurrence & { profileId: string }) => (familyMode ? ownerOf(e.profileId)?.accent ?? e.color : e.color);
+          const label = (e: Occurrence & { profileId: string }) => `${findCategory(categories, e.category)?.icon ?? ''} ${e.title}`.trim();
+          const owner = (e: Occurrence & { profileId: string }) => (familyMode ? `${ownerOf(e.profileId)?.name} · ` : '');
+          return (
+            <View style={{ flex: 1 }} onStartShouldSetResponderCapture={startSwipe} onMoveShouldSetResponderCapture={isSwipe} onResponderRelease={endSwipe} onResponderTerminate={() => { swipeRef.current = null; }}>
+              <ScrollView contentContainerStyle={{ gap: 8 }}>
+                {/* Now / Next */}
+                {agendaDay === today && (
+                  <View style={[styles.nowCard, { borderColor: accent }]}>
+                    <Text style={[styles.nowLabel, { color: accent }]}>{t('now')}</Text>
+                    {current.length ? current.map(e => (
+                      <View key={`${e.id}:${e.profileId}`}>
+                        <Text style={[styles.nowTitle, { color: tint(e) }]}>{label(e)}</Text>
+                        <Text style={styles.nowMeta}>{owner(e)}{t('until', { time: formatTime(e.end, clock, locale) })}</Text>
+                        {!!e.notes && <Text style={styles.nowNotes}>{e.notes}</Text>}
+                      </View>
+                    )) : <Text style={styles.nowTitle}>{t('freeTime')}</Text>}
+                    <Text style={[styles.nowLabel, { color: accent, marginTop: 16 }]}>{t('upNext')}{next ? ` · ${t('inDuration', { duration: formatHours(toMinutes(next.start) - minutes, t) })}` : ''}</Text>
+                    {next ? (<>
+                      <Text style={[styles.nowTitle, { color: tint(next) }]}>{label(next)}</Text>
+                      <Text style={styles.nowMeta}>{owner(next)}{formatTime(next.start, clock, locale)} – {formatTime(next.end, clock, locale)}</Text>
+                      {!!next.notes && <Text style={styles.nowNotes}>{next.notes}</Text>}
+                    </>) : <Text style={styles.nowMeta}>{t('nothingElseToday')}</Text>}
+                  </View>
+                )}
+
+                {/* Day checklist */}
+                {!!activeProfile && (
+                  <View style={styles.agendaTasks}>
+                    {(activeProfile.dayTasks?.[day] ?? []).map(t => {
+                      const done = isDone(activeProfile.id, agendaDay, t.id);
+                      return (
+                        <Pressable key={t.id} onPress={() => toggleDone(activeProfile.id, agendaDay, t)} style={styles.taskRow}>
+                          <Text style={[styles.agendaTask, done && styles.taskDone]}>{done ? '☑' : '☐'} {t.text}{t.points ? ` ★${t.points}` : ''}</Text>
+                        </Pressable>
+                      );
+                    })}
+                    {!kidMode && (
+                      <Pressable style={[styles.chipOutline, { alignSelf: 'flex-start', marginTop: 4 }]} onPress={() => { setTaskDraft(''); setCopyDays([]); setDayOpen(day); }}>
+                        <Text style={styles.chipOutlineText}>{t('dayChecklistMenu')}</Text>
+                      </Pressable>
+                    )}
+                  </View>
+                )}
+
+                {/* Agenda */}
+                {!agenda.length && <Text style={styles.label}>{t('nothingPlannedDay')}</Text>}
+                {agenda.map(e => {
+                  const color = tint(e);
+                  return (
+                    <Pressable key={`${e.id}:${e.profileId}`} disabled={kidMode} onPress={() => handleEdit(e)} style={[styles.agendaRow, { borderColor: color, backgroundColor: color + '1A' }]}>
+                      <View style={styles.agendaTime}>
+                        <Text style={styles.headerText}>{formatTime(e.start, clock, locale)}</Text>
+                        <Text style={styles.headerDate}>{formatTime(e.end, clock, locale)}</Text>
+                      </View>
+                      <View style={{ flex: 1 }}>
+                        <Text style={[styles.agendaTitle, { color }]}>{label(e)}</Text>
+                        {familyMode && <Text style={styles.headerDate}>{ownerOf(e.profileId)?.name}</Text>}
+                        {!!caregiverLine(e) && <Text style={styles.headerDate}>{caregiverLine(e)}</Text>}
+                        {!!e.notes && <Text style={styles.eventNotes}>{e.notes}</Text>}
+                        {!!e.points && (
+                          <Pressable onPress={() => toggleDone(e.profileId, e.date, { id: e.id, text: e.title, points: e.points })} style={styles.taskRow}>
+                            <Text style={[styles.agendaTask, { color }]}>{isDone(e.profileId, e.date, e.id) ? '★' : '☆'} {t('starsN', { n: e.points })}</Text>
+                          </Pressable>
+                        )}
+                        {(e.tasks ?? []).map(t => {
+                          const done = isDone(e.profileId, e.date, t.id);
+                          return (
+                            <Pressable key={t.id} onPress={() => toggleDone(e.profileId, e.date, t)} style={styles.taskRow}>
+                              <Text style={[styles.agendaTask, done && styles.taskDone]}>{done ? '☑' : '☐'} {t.text}{t.points ? ` ★${t.points}` : ''}</Text>
+                            </Pressable>
+                          );
+                        })}
+                      </View>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+            </View>
+          );
+        })() : (
         <ScrollView horizontal>
           <View>
             {/* Header row */}
             <View style={{ flexDirection: 'row' }}>
               <View style={{ width: 120 }} />
-              {DAYS.map(d => (
-                <View key={d} style={[styles.cellHeader, { width: 160 }]}>
-                  <Text style={styles.headerText}>{d}</Text>
-                </View>
+              {weekDays.map((d, i) => (
+                <Pressable key={d} disabled={!activeProfile} onPress={() => { setTaskDraft(''); setCopyDays([]); setDayOpen(d); }} style={[styles.cellHeader, { width: 160 }, weekDates[i] === today && { backgroundColor: accent + '1A' }]}>
+                  <Text style={[styles.headerText, weekDates[i] === today && { color: accent }]}>{dayName(d, locale)}</Text>
+                  <Text style={styles.headerDate}>{formatDate(weekDates[i], locale)}</Text>
+                  {!!columns[i].before.length && (
+                    <Pressable onPress={() => setMoreEvents(columns[i].before)} style={[styles.offRange, { borderColor: accent }]}>
+                      <Text style={[styles.moreText, { color: accent }]}>{t('earlier', { n: columns[i].before.length })}</Text>
+                    </Pressable>
+                  )}
+                  {!!columns[i].after.length && (
+                    <Pressable onPress={() => setMoreEvents(columns[i].after)} style={[styles.offRange, { borderColor: accent }]}>
+                      <Text style={[styles.moreText, { color: accent }]}>{t('later', { n: columns[i].after.length })}</Text>
+                    </Pressable>
+                  )}
+                  {!!activeProfile && (activeProfile.dayTasks?.[d] ?? []).map(t => {
+                    const done = isDone(activeProfile.id, weekDates[i], t.id);
+                    return (
+                      <Pressable key={t.id} onPress={() => toggleDone(activeProfile.id, weekDates[i], t)} style={styles.taskRow}>
+                        <Text style={[styles.taskText, done && styles.taskDone]} numberOfLines={1}>{done ? '☑' : '☐'} {t.text}{t.points ? ` ★${t.points}` : ''}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </Pressable>
               ))}
             </View>
 
@@ -331,9 +1234,9 @@ export default function KidsWeeklyPlanner() {
             <View style={{ flexDirection: 'row' }}>
               {/* Time labels */}
               <View style={{ width: 120 }}>
-                {(denseHours ? Array.from({ length: HOURS.length * 2 }, (_, i) => 7 + i * 0.5) : HOURS).map((h, idx) => (
-                  <View key={idx} style={{ height: rowHeight, justifyContent: 'flex-start', alignItems: 'flex-end', paddingRight: 8 }}>
-                    <Text style={{ color: '#64748b', fontSize: 12, transform: [{ translateY: -8 }] }}>{formatHour(h)}</Text>
+                {slots.map(m => (
+                  <View key={m} style={{ height: rowHeight, justifyContent: 'flex-start', alignItems: 'flex-end', paddingEnd: 8 }}>
+                    <Text style={{ color: '#64748b', fontSize: 12, transform: [{ translateY: -8 }] }}>{formatTime(fromMinutes(m), clock, locale)}</Text>
                   </View>
                 ))}
               </View>
@@ -341,10 +1244,10 @@ export default function KidsWeeklyPlanner() {
               {/* Columns */}
               <View>
                 {/* Background grid */}
-                {(denseHours ? Array.from({ length: HOURS.length * 2 }) : HOURS).map((_, rowIdx) => (
+                {slots.map((_, rowIdx) => (
                   <View key={rowIdx} style={{ flexDirection: 'row' }}>
-                    {DAYS.map(day => (
-                      <View key={`${day}-${rowIdx}`} style={[styles.cell, { width: 160, height: rowHeight }]} />
+                    {weekDays.map(day => (
+                      <Pressable key={`${day}-${rowIdx}`} disabled={kidMode} onPress={() => handleAddAt(day, rowIdx)} style={[styles.cell, { width: 160, height: rowHeight }]} />
                     ))}
                   </View>
                 ))}
@@ -352,32 +1255,77 @@ export default function KidsWeeklyPlanner() {
                 {/* Events layer */}
                 <View style={{ position: 'absolute', left: 0, right: 0, top: 0 }}>
                   <View style={{ flexDirection: 'row' }}>
-                    {DAYS.map(day => (
+                    {weekDays.map((day, dayIdx) => (
                       <View key={day} style={{ width: 160, position: 'relative' }}>
-                        {sortedEvents.filter(e => e.day === day).map(e => {
-                          const top = (timeToRow(e.start)) * rowHeight * (denseHours ? 2 : 1);
-                          const height = (timeToRow(e.end) - timeToRow(e.start)) * rowHeight * (denseHours ? 2 : 1);
+                        {columns[dayIdx].blocks.map(({ item: e, lane, lanes }) => {
+                          const key = `${e.id}:${e.date}`;
+                          const dragging = drag?.key === key ? drag : null;
+                          const shown = dragging ? { ...e, ...dragging.to } : e;
+                          const { top, height } = slotBox(shown.start, shown.end, settings, rowHeight);
+                          const owner = ownerOf(e.profileId);
+                          const color = familyMode && owner ? owner.accent : e.color;
                           return (
-                            <Pressable
-                              key={e.id}
-                              onLongPress={() => { setEditing(e); setOpen(true); }}
-                              onPress={() => { setEditing(e); setOpen(true); }}
-                              style={({ pressed }) => [
+                            <View
+                              key={key}
+                              onStartShouldSetResponder={() => !kidMode}
+                              onResponderGrant={ev => startDrag(e, 'move', ev)}
+                              onResponderMove={moveDrag}
+                              onResponderRelease={endDrag}
+                              onResponderTerminationRequest={() => false}
+                              onResponderTerminate={cancelDrag}
+                              style={[
                                 styles.eventBlock,
-                                { top, height, borderColor: e.color, backgroundColor: e.color + '1A' },
-                                pressed && { opacity: 0.85 }
+                                { top, height, ...laneBox(lane, lanes), borderColor: color, backgroundColor: color + '1A' },
+                                lanes > 1 && styles.eventBlockNarrow,
+                                !!dragging && { zIndex: 10, opacity: 0.9, transform: [{ translateX: (weekDays.indexOf(shown.day) - dayIdx) * 160 * (rtl ? -1 : 1) }] },
+                                !!dragging?.clash && styles.eventBlockClash,
                               ]}
                             >
                               <View style={styles.eventHeader}>
-                                <Text style={[styles.eventTitle, { color: e.color }]} numberOfLines={1}>{e.title}</Text>
-                                <Text style={styles.eventEdit}>edit</Text>
+                                <Text style={[styles.eventTitle, { color }]} numberOfLines={1}>{e.title}</Text>
+                                {lanes === 1 && <Text style={styles.eventEdit}>{t('editLink')}</Text>}
                               </View>
-                              <Text style={styles.eventMeta}>{e.start} – {e.end}</Text>
-                              {!!e.category && <Text style={styles.eventCat} numberOfLines={1}>{e.category}</Text>}
+                              {familyMode && !!owner && <Text style={[styles.eventOwner, { backgroundColor: owner.accent }]} numberOfLines={1}>{owner.name}</Text>}
+                              <Text style={styles.eventMeta}>{formatTime(shown.start, clock, locale)} – {formatTime(shown.end, clock, locale)}{dragging?.clash ? ` · ${t('overlapsTag')}` : ''}</Text>
+                              {!!e.points && (
+                                <Pressable onPress={() => toggleDone(e.profileId, e.date, { id: e.id, text: e.title, points: e.points })} style={styles.taskRow}>
+                                  <Text style={[styles.taskText, { color }]}>{isDone(e.profileId, e.date, e.id) ? '★' : '☆'} {t('starsN', { n: e.points })}</Text>
+                                </Pressable>
+                              )}
+                              {!!e.category && <Text style={styles.eventCat} numberOfLines={1}>{findCategory(categories, e.category)?.icon} {e.category}</Text>}
+                              {!!caregiverLine(e) && <Text style={styles.eventCat} numberOfLines={2}>{caregiverLine(e)}</Text>}
                               {!!e.notes && <Text style={styles.eventNotes} numberOfLines={2}>{e.notes}</Text>}
-                            </Pressable>
+                              {(e.tasks ?? []).map(t => {
+                                const done = isDone(e.profileId, e.date, t.id);
+                                return (
+                                  <Pressable key={t.id} onPress={() => toggleDone(e.profileId, e.date, t)} style={styles.taskRow}>
+                                    <Text style={[styles.taskText, done && styles.taskDone]} numberOfLines={1}>{done ? '☑' : '☐'} {t.text}{t.points ? ` ★${t.points}` : ''}</Text>
+                                  </Pressable>
+                                );
+                              })}
+                              <View
+                                onStartShouldSetResponder={() => !kidMode}
+                                onResponderGrant={ev => startDrag(e, 'resize', ev)}
+                                onResponderMove={moveDrag}
+                                onResponderRelease={endDrag}
+                                onResponderTerminationRequest={() => false}
+                                onResponderTerminate={cancelDrag}
+                                style={styles.resizeHandle}
+                              >
+                                <View style={[styles.resizeGrip, { backgroundColor: color }]} />
+                              </View>
+                            </View>
                           );
                         })}
+                        {columns[dayIdx].more.map(m => (
+                          <Pressable
+                            key={`more:${m.top}`}
+                            onPress={() => setMoreEvents(m.items)}
+                            style={[styles.moreMarker, { top: slotBox(fromMinutes(m.top), fromMinutes(m.bottom), settings, rowHeight).top, ...laneBox(m.lane, m.lanes), borderColor: accent }]}
+                          >
+                            <Text style={[styles.moreText, { color: accent }]}>{t('moreN', { n: m.items.length })}</Text>
+                          </Pressable>
+                        ))}
                       </View>
                     ))}
                   </View>
@@ -386,66 +1334,814 @@ export default function KidsWeeklyPlanner() {
             </View>
           </View>
         </ScrollView>
+        )}
       </View>
 
       {/* Add/Edit modal */}
       <Modal visible={open} animationType="slide" transparent onRequestClose={() => setOpen(false)}>
         <View style={styles.modalBackdrop}>
           <View style={styles.modalCard}>
-            <Text style={styles.modalTitle}>{editing && events.find(e => e.id === editing.id) ? 'Edit Event' : 'Add Event'}</Text>
+            <Text style={styles.modalTitle}>{editing && profiles.some(p => p.events.some(e => e.id === editing.id)) ? t('editEvent') : t('addEvent')}</Text>
 
             {!!editing && (
-              <View style={{ gap: 10 }}>
+              <ScrollView contentContainerStyle={{ gap: 10 }}>
+                {!!editingDate && !!editing.repeat && (
+                  <View>
+                    <Text style={styles.label}>{t('change')}</Text>
+                    <View style={styles.colorRow}>
+                      <Pressable onPress={() => chooseScope('one')} style={[styles.dayPill, { backgroundColor: editScope === 'one' ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                        <Text style={{ color: editScope === 'one' ? '#fff' : '#111827' }}>{t('onlyDate', { date: formatDate(editingDate, locale) })}</Text>
+                      </Pressable>
+                      <Pressable onPress={() => chooseScope('all')} style={[styles.dayPill, { backgroundColor: editScope === 'all' ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                        <Text style={{ color: editScope === 'all' ? '#fff' : '#111827' }}>{t('wholeSeries')}</Text>
+                      </Pressable>
+                    </View>
+                  </View>
+                )}
                 <View>
-                  <Text style={styles.label}>Title</Text>
-                  <TextInput value={editing.title} onChangeText={v => setEditing({ ...editing, title: v })} placeholder="e.g., School, Football, Piano" style={styles.input} />
+                  <Text style={styles.label}>{t('title')}</Text>
+                  <TextInput value={editing.title} onChangeText={v => setEditing({ ...editing, title: v })} placeholder={t('titlePlaceholder')} style={styles.input} />
                 </View>
-                <View>
-                  <Text style={styles.label}>Day</Text>
-                  <ScrollView horizontal contentContainerStyle={{ gap: 8 }}>
-                    {DAYS.map(d => (
-                      <Pressable key={d} onPress={() => setEditing({ ...editing, day: d })} style={[styles.dayPill, { backgroundColor: editing.day === d ? accent : '#fff', borderColor: '#e5e7eb' }]}>
-                        <Text style={{ color: editing.day === d ? '#fff' : '#111827' }}>{d.slice(0,3)}</Text>
+                {familyMode && (
+                  <View>
+                    <Text style={styles.label}>{t('child')}</Text>
+                    <ScrollView horizontal contentContainerStyle={{ gap: 8 }}>
+                      {profiles.map(p => (
+                        <Pressable key={p.id} onPress={() => setEditingOwner(p.id)} style={[styles.dayPill, { backgroundColor: editingOwner === p.id ? p.accent : '#fff', borderColor: p.accent }]}>
+                          <Text style={{ color: editingOwner === p.id ? '#fff' : '#111827' }}>{p.name}</Text>
+                        </Pressable>
+                      ))}
+                    </ScrollView>
+                  </View>
+                )}
+                {editScope === 'all' && (
+                  <View>
+                    <Text style={styles.label}>{t('repeat')}</Text>
+                    <View style={styles.colorRow}>
+                      {(['once', 'weekly'] as const).map(kind => {
+                        const active = kind === (editing.repeat ? 'weekly' : 'once');
+                        return (
+                          <Pressable key={kind} onPress={() => setRepeatKind(kind)} style={[styles.dayPill, { backgroundColor: active ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                            <Text style={{ color: active ? '#fff' : '#111827' }}>{t(kind === 'once' ? 'once' : 'weekly')}</Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                  </View>
+                )}
+                {editScope === 'all' && (
+                  <View>
+                    <Text style={styles.label}>{editing.repeat ? t('days') : editing.date ? t('dayOn', { date: formatDate(editing.date, locale, true) }) : t('day')}</Text>
+                    <ScrollView horizontal contentContainerStyle={{ gap: 8 }}>
+                      {weekDays.map(d => {
+                        const active = editing.repeat ? editing.repeat.days.includes(d) : editing.day === d;
+                        return (
+                          <Pressable key={d} onPress={() => pickDay(d)} style={[styles.dayPill, { backgroundColor: active ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                            <Text style={{ color: active ? '#fff' : '#111827' }}>{dayName(d, locale, 'short')}</Text>
+                          </Pressable>
+                        );
+                      })}
+                    </ScrollView>
+                  </View>
+                )}
+                {editScope === 'all' && !!editing.repeat && (
+                  <View style={{ flexDirection: 'row', gap: 12 }}>
+                    <View style={{ width: 90 }}>
+                      <Text style={styles.label}>{t('everyWeeks')}</Text>
+                      <TextInput value={String(editing.repeat.every)} onChangeText={v => setEditing({ ...editing, repeat: { ...editing.repeat!, every: Number(v) } })} keyboardType="number-pad" style={styles.input} />
+                    </View>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.label}>{t('fromDate')}</Text>
+                      <TextInput value={editing.repeat.from ?? ''} onChangeText={v => setEditing({ ...editing, repeat: { ...editing.repeat!, from: v || undefined } })} placeholder="2025-09-08" style={styles.input} />
+                    </View>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.label}>{t('untilDate')}</Text>
+                      <TextInput value={editing.repeat.until ?? ''} onChangeText={v => setEditing({ ...editing, repeat: { ...editing.repeat!, until: v || undefined } })} placeholder={t('untilPlaceholder')} style={styles.input} />
+                    </View>
+                  </View>
+                )}
+                {editScope === 'all' && !!editingOwner && !!findSeries(editingOwner, editing.id) && (
+                  <View>
+                    <Text style={styles.label}>{t('copyToOtherDays')}</Text>
+                    <ScrollView horizontal contentContainerStyle={{ gap: 8 }}>
+                    {weekDays.map(d => (
+                      <Pressable key={d} onPress={() => toggleCopyDay(d)} style={[styles.dayPill, { backgroundColor: copyDays.includes(d) ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                        <Text style={{ color: copyDays.includes(d) ? '#fff' : '#111827' }}>{dayName(d, locale, 'short')}</Text>
                       </Pressable>
                     ))}
-                  </ScrollView>
-                </View>
+                      <Pressable disabled={!copyDays.length} onPress={() => copyToDays(editingOwner, [findSeries(editingOwner, editing.id)!])} style={[styles.chipOutline, !copyDays.length && styles.disabled]}>
+                        <Text style={styles.chipOutlineText}>{t('copy')}</Text>
+                      </Pressable>
+                    </ScrollView>
+                  </View>
+                )}
                 <View>
-                  <Text style={styles.label}>Category</Text>
-                  <TextInput value={editing.category} onChangeText={v => setEditing({ ...editing, category: v })} placeholder="School / Sport / Rest..." style={styles.input} />
+                  <Text style={styles.label}>{t('category')}</Text>
+                  <View style={[styles.colorRow, { flexWrap: 'wrap' }]}>
+                    {[{ id: '', name: '', color: editing.color, icon: '' }, ...categories].map(c => {
+                      const active = (findCategory(categories, editing.category)?.id ?? '') === c.id;
+                      return (
+                        <Pressable key={c.id} onPress={() => setEditing({ ...editing, category: c.name, color: c.color })} style={[styles.dayPill, { backgroundColor: active ? c.color : '#fff', borderColor: c.id ? c.color : '#e5e7eb' }]}>
+                          <Text style={{ color: active ? '#fff' : '#111827' }}>{c.id ? `${c.icon} ${c.name}` : t('none')}</Text>
+                        </Pressable>
+                      );
+                    })}
+                    <Pressable onPress={() => setCategoriesOpen(true)} style={styles.chipOutline}><Text style={styles.chipOutlineText}>{t('editMore')}</Text></Pressable>
+                  </View>
                 </View>
                 <View style={{ flexDirection: 'row', gap: 12 }}>
                   <View style={{ flex: 1 }}>
-                    <Text style={styles.label}>Start (HH:MM)</Text>
+                    <Text style={styles.label}>{t('startTime')}</Text>
                     <TextInput value={editing.start} onChangeText={v => setEditing({ ...editing, start: v })} placeholder="09:00" style={styles.input} />
                   </View>
                   <View style={{ flex: 1 }}>
-                    <Text style={styles.label}>End (HH:MM)</Text>
+                    <Text style={styles.label}>{t('endTime')}</Text>
                     <TextInput value={editing.end} onChangeText={v => setEditing({ ...editing, end: v })} placeholder="10:00" style={styles.input} />
                   </View>
                 </View>
+                {(['dropOff', 'pickUp'] as const).map(duty => (
+                  <View key={duty}>
+                    <Text style={styles.label}>{t(duty)}</Text>
+                    <View style={[styles.colorRow, { flexWrap: 'wrap' }]}>
+                      {[{ id: '', name: t('none'), color: '#64748b' }, ...caregivers].map(c => {
+                        const active = (findCaregiver(caregivers, editing[duty])?.id ?? '') === c.id;
+                        return (
+                          <Pressable key={c.id} onPress={() => setEditing({ ...editing, [duty]: c.id })} style={[styles.dayPill, { backgroundColor: active ? c.color : '#fff', borderColor: c.id ? c.color : '#e5e7eb' }]}>
+                            <Text style={{ color: active ? '#fff' : '#111827' }}>{c.name}</Text>
+                          </Pressable>
+                        );
+                      })}
+                      <Pressable onPress={() => setCaregiversOpen(true)} style={styles.chipOutline}><Text style={styles.chipOutlineText}>{t('editMore')}</Text></Pressable>
+                    </View>
+                  </View>
+                ))}
+                {!findCategory(categories, editing.category) && (
+                  <View>
+                    <Text style={styles.label}>{t('color')}</Text>
+                    <View style={styles.colorRow}>
+                      {ACCENTS.map(c => (
+                        <Pressable key={c} onPress={() => setEditing({ ...editing!, color: c })} style={[styles.colorDot, { backgroundColor: c, borderColor: editing.color === c ? '#111827' : '#e5e7eb' }]} />
+                      ))}
+                    </View>
+                  </View>
+                )}
+                <View>
+                  <Text style={styles.label}>{editingDate ? t('checklistOn', { date: formatDate(editingDate, locale) }) : t('checklist')}</Text>
+                  {(editing.tasks ?? []).map(t => {
+                    const done = !!editingOwner && !!editingDate && isDone(editingOwner, editingDate, t.id);
+                    return (
+                      <View key={t.id} style={styles.taskEditRow}>
+                        <Pressable disabled={!editingOwner || !editingDate} onPress={() => toggleDone(editingOwner!, editingDate!, t)}>
+                          <Text style={styles.taskBox}>{done ? '☑' : '☐'}</Text>
+                        </Pressable>
+                        {editScope === 'all' ? (
+                          <TextInput value={t.text} onChangeText={v => setEditing({ ...editing, tasks: editing.tasks!.map(x => (x.id === t.id ? { ...x, text: v } : x)) })} style={[styles.input, { flex: 1, padding: 6 }]} />
+                        ) : (
+                          <Text style={[{ flex: 1 }, done && styles.taskDone]}>{t.text}{t.points ? ` ★${t.points}` : ''}</Text>
+                        )}
+                        {editScope === 'all' && (
+                          <TextInput value={t.points ? String(t.points) : ''} onChangeText={v => setEditing({ ...editing, tasks: editing.tasks!.map(x => (x.id === t.id ? { ...x, points: parsePoints(v) } : x)) })} placeholder="★" keyboardType="number-pad" style={[styles.input, styles.pointsInput]} />
+                        )}
+                        {editScope === 'all' && (
+                          <Pressable onPress={() => setEditing({ ...editing, tasks: editing.tasks!.filter(x => x.id !== t.id) })}>
+                            <Text style={styles.taskRemove}>✕</Text>
+                          </Pressable>
+                        )}
+                      </View>
+                    );
+                  })}
+                  {editScope === 'all' && (
+                    <View style={styles.taskEditRow}>
+                      <TextInput value={taskDraft} onChangeText={setTaskDraft} onSubmitEditing={() => setEditing({ ...editing, tasks: addTaskTo(editing.tasks) })} placeholder={t('taskPlaceholder')} style={[styles.input, { flex: 1, padding: 6 }]} />
+                      <Pressable onPress={() => setEditing({ ...editing, tasks: addTaskTo(editing.tasks) })} style={styles.chipOutline}><Text style={styles.chipOutlineText}>{t('add')}</Text></Pressable>
+                    </View>
+                  )}
+                </View>
+                {editScope === 'all' && (
+                  <View>
+                    <Text style={styles.label}>{t('starsForCompleting')}</Text>
+                    <TextInput value={editing.points ? String(editing.points) : ''} onChangeText={v => setEditing({ ...editing, points: parsePoints(v) })} placeholder="0" keyboardType="number-pad" style={styles.input} />
+                  </View>
+                )}
                 <View>
-                  <Text style={styles.label}>Color</Text>
+                  <Text style={styles.label}>{t('notes')}</Text>
+                  <TextInput value={editing.notes ?? ''} onChangeText={v => setEditing({ ...editing, notes: v })} placeholder={t('notesPlaceholder')} style={[styles.input, { height: 80, textAlignVertical: 'top' }]} multiline />
+                </View>
+                <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 8 }}>
+                  <Pressable onPress={() => setOpen(false)} style={[styles.btn, { backgroundColor: '#e5e7eb' }]}><Text>{t('cancel')}</Text></Pressable>
+                  <View style={{ flexDirection: 'row', gap: 10 }}>
+                    {editScope === 'one' && !!editingOwner && !!editingDate ? (
+                      <Pressable onPress={() => { skipOccurrence(editingOwner, editing.id, editingDate); setOpen(false); }} style={[styles.btn, { backgroundColor: '#f59e0b' }]}>
+                        <Text style={{ color: '#fff' }}>{t('skipDate')}</Text>
+                      </Pressable>
+                    ) : !!editing?.id && (
+                      <Pressable onPress={() => { if (editing?.id) deleteEvent(editing.id); setOpen(false); }} style={[styles.btn, { backgroundColor: '#ef4444' }]}>
+                        <Text style={{ color: '#fff' }}>{t('delete')}</Text>
+                      </Pressable>
+                    )}
+                    <Pressable onPress={saveEvent} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('save')}</Text></Pressable>
+                  </View>
+                </View>
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Day checklist modal */}
+      <Modal visible={!!dayOpen && !!activeProfile} animationType="slide" transparent onRequestClose={() => setDayOpen(null)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            {!!dayOpen && !!activeProfile && (() => {
+              const date = dateOf(dayOpen);
+              const tasks = activeProfile.dayTasks?.[dayOpen] ?? [];
+              return (
+                <ScrollView contentContainerStyle={{ gap: 10 }}>
+                  <Text style={styles.modalTitle}>{t('dayChecklist', { day: dayName(dayOpen, locale), date: formatDate(date, locale) })}</Text>
+                  {tasks.map(t => {
+                    const done = isDone(activeProfile.id, date, t.id);
+                    return (
+                      <View key={t.id} style={styles.taskEditRow}>
+                        <Pressable onPress={() => toggleDone(activeProfile.id, date, t)}>
+                          <Text style={styles.taskBox}>{done ? '☑' : '☐'}</Text>
+                        </Pressable>
+                        {kidMode ? (
+                          <Text style={{ flex: 1 }}>{t.text}{t.points ? ` ★${t.points}` : ''}</Text>
+                        ) : (<>
+                          <TextInput value={t.text} onChangeText={v => setDayTasks(dayOpen, tasks.map(x => (x.id === t.id ? { ...x, text: v } : x)))} style={[styles.input, { flex: 1, padding: 6 }]} />
+                          <TextInput value={t.points ? String(t.points) : ''} onChangeText={v => setDayTasks(dayOpen, tasks.map(x => (x.id === t.id ? { ...x, points: parsePoints(v) } : x)))} placeholder="★" keyboardType="number-pad" style={[styles.input, styles.pointsInput]} />
+                          <Pressable onPress={() => setDayTasks(dayOpen, tasks.filter(x => x.id !== t.id))}>
+                            <Text style={styles.taskRemove}>✕</Text>
+                          </Pressable>
+                        </>)}
+                      </View>
+                    );
+                  })}
+                  {!kidMode && (<>
+                  <View style={styles.taskEditRow}>
+                    <TextInput value={taskDraft} onChangeText={setTaskDraft} onSubmitEditing={() => setDayTasks(dayOpen, addTaskTo(tasks))} placeholder={t('dayTaskPlaceholder')} style={[styles.input, { flex: 1, padding: 6 }]} />
+                    <Pressable onPress={() => setDayTasks(dayOpen, addTaskTo(tasks))} style={styles.chipOutline}><Text style={styles.chipOutlineText}>{t('add')}</Text></Pressable>
+                  </View>
+                  <Text style={[styles.label, { marginTop: 8 }]}>{t('copyDayTo')}</Text>
+                  <ScrollView horizontal contentContainerStyle={{ gap: 8 }}>
+                    {weekDays.filter(d => d !== dayOpen).map(d => (
+                      <Pressable key={d} onPress={() => toggleCopyDay(d)} style={[styles.dayPill, { backgroundColor: copyDays.includes(d) ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                        <Text style={{ color: copyDays.includes(d) ? '#fff' : '#111827' }}>{dayName(d, locale, 'short')}</Text>
+                      </Pressable>
+                    ))}
+                    <Pressable disabled={!copyDays.length} onPress={() => copyToDays(activeProfile.id, dayEvents(activeProfile, date))} style={[styles.chipOutline, !copyDays.length && styles.disabled]}>
+                      <Text style={styles.chipOutlineText}>{t('copy')}</Text>
+                    </Pressable>
+                  </ScrollView>
+                  </>)}
+                  <View style={{ flexDirection: 'row', justifyContent: kidMode ? 'flex-end' : 'space-between', marginTop: 8 }}>
+                    {!kidMode && <Pressable onPress={() => clearDay(activeProfile, date)} style={[styles.btn, { backgroundColor: '#ef4444' }]}><Text style={{ color: '#fff' }}>{t('clearDay')}</Text></Pressable>}
+                    <Pressable onPress={() => setDayOpen(null)} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('done')}</Text></Pressable>
+                  </View>
+                </ScrollView>
+              );
+            })()}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Print options */}
+      <Modal visible={printOpen} animationType="fade" transparent onRequestClose={() => setPrintOpen(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('printPdf')}</Text>
+            <View style={{ gap: 10 }}>
+              <View style={styles.controlsRow}>
+                <Text style={styles.label}>{t('paper')}</Text>
+                {(['A4', 'Letter'] as const).map(paper => (
+                  <Pressable key={paper} onPress={() => setPrintOptions({ ...printOptions, paper })} style={[styles.dayPill, { backgroundColor: printOptions.paper === paper ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                    <Text style={{ color: printOptions.paper === paper ? '#fff' : '#111827' }}>{paper}</Text>
+                  </Pressable>
+                ))}
+              </View>
+              <View style={styles.controlsRow}>
+                <Text style={styles.label}>{t('orientation')}</Text>
+                {(['portrait', 'landscape'] as const).map(orientation => (
+                  <Pressable key={orientation} onPress={() => setPrintOptions({ ...printOptions, orientation })} style={[styles.dayPill, { backgroundColor: printOptions.orientation === orientation ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                    <Text style={{ color: printOptions.orientation === orientation ? '#fff' : '#111827' }}>{t(orientation)}</Text>
+                  </Pressable>
+                ))}
+              </View>
+              {!!photo && (
+                <View style={styles.controlsRow}>
+                  <Text style={styles.label}>{t('includePhoto')}</Text>
+                  <Switch value={printOptions.photo} onValueChange={v => setPrintOptions({ ...printOptions, photo: v })} />
+                </View>
+              )}
+              <View style={styles.controlsRow}>
+                <Text style={styles.label}>{t('includeLegend')}</Text>
+                <Switch value={printOptions.legend} onValueChange={v => setPrintOptions({ ...printOptions, legend: v })} />
+              </View>
+              <View style={styles.controlsRow}>
+                <Text style={styles.label}>{t('includeStats')}</Text>
+                <Switch value={printOptions.stats} onValueChange={v => setPrintOptions({ ...printOptions, stats: v })} />
+              </View>
+            </View>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 16 }}>
+              <Pressable onPress={() => setPrintOpen(false)} style={[styles.btn, { backgroundColor: '#e5e7eb' }]}><Text>{t('cancel')}</Text></Pressable>
+              <Pressable onPress={printPDF} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('print')}</Text></Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Category registry */}
+      <Modal visible={categoriesOpen} animationType="fade" transparent onRequestClose={() => setCategoriesOpen(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('categories')}</Text>
+            <ScrollView style={{ maxHeight: 420 }} contentContainerStyle={{ gap: 12 }}>
+              {!categories.length && <Text style={styles.headerDate}>{t('categoriesEmpty')}</Text>}
+              {categories.map(c => (
+                <View key={c.id} style={{ gap: 6 }}>
+                  <View style={styles.taskEditRow}>
+                    <Pressable onPress={() => updateCategory(c.id, { icon: CATEGORY_ICONS[(CATEGORY_ICONS.indexOf(c.icon) + 1) % CATEGORY_ICONS.length] })} style={[styles.dayPill, { borderColor: c.color }]}>
+                      <Text>{c.icon}</Text>
+                    </Pressable>
+                    <TextInput
+                      value={nameDrafts[c.id] ?? c.name}
+                      onChangeText={v => setNameDrafts({ ...nameDrafts, [c.id]: v })}
+                      onBlur={() => nameDrafts[c.id] !== undefined && renameCategory(c.id, nameDrafts[c.id])}
+                      onSubmitEditing={() => nameDrafts[c.id] !== undefined && renameCategory(c.id, nameDrafts[c.id])}
+                      style={[styles.input, { flex: 1, padding: 6 }]}
+                    />
+                    <Pressable onPress={() => deleteCategory(c)}>
+                      <Text style={styles.taskRemove}>✕</Text>
+                    </Pressable>
+                  </View>
                   <View style={styles.colorRow}>
-                    {['#2563eb','#ef4444','#22c55e','#06b6d4','#f59e0b','#8b5cf6','#14b8a6','#e11d48'].map(c => (
-                      <Pressable key={c} onPress={() => setEditing({ ...editing!, color: c })} style={[styles.colorDot, { backgroundColor: c, borderColor: editing.color === c ? '#111827' : '#e5e7eb' }]} />
+                    {ACCENTS.map(color => (
+                      <Pressable key={color} onPress={() => updateCategory(c.id, { color })} style={[styles.colorDot, { backgroundColor: color, borderColor: c.color === color ? '#111827' : '#e5e7eb' }]} />
                     ))}
                   </View>
                 </View>
-                <View>
-                  <Text style={styles.label}>Notes</Text>
-                  <TextInput value={editing.notes ?? ''} onChangeText={v => setEditing({ ...editing, notes: v })} placeholder="Snacks, pickup time, coach name…" style={[styles.input, { height: 80, textAlignVertical: 'top' }]} multiline />
+              ))}
+            </ScrollView>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 16 }}>
+              <Pressable onPress={addCategory} style={styles.chipOutline}><Text style={styles.chipOutlineText}>{t('addCategory')}</Text></Pressable>
+              <Pressable onPress={() => setCategoriesOpen(false)} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('done')}</Text></Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Caregivers */}
+      <Modal visible={caregiversOpen} animationType="fade" transparent onRequestClose={() => setCaregiversOpen(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('caregivers')}</Text>
+            <ScrollView style={{ maxHeight: 420 }} contentContainerStyle={{ gap: 12 }}>
+              {!caregivers.length && <Text style={styles.headerDate}>{t('caregiversEmpty')}</Text>}
+              {caregivers.map(c => (
+                <View key={c.id} style={{ gap: 6 }}>
+                  <View style={styles.taskEditRow}>
+                    <TextInput value={c.name} onChangeText={name => updateCaregiver(c.id, { name })} style={[styles.input, { flex: 1, padding: 6, borderColor: c.color }]} />
+                    <Pressable onPress={() => deleteCaregiver(c)}>
+                      <Text style={styles.taskRemove}>✕</Text>
+                    </Pressable>
+                  </View>
+                  <View style={styles.colorRow}>
+                    {ACCENTS.map(color => (
+                      <Pressable key={color} onPress={() => updateCaregiver(c.id, { color })} style={[styles.colorDot, { backgroundColor: color, borderColor: c.color === color ? '#111827' : '#e5e7eb' }]} />
+                    ))}
+                  </View>
                 </View>
+              ))}
+              <View style={styles.controlsRow}>
+                <Text style={styles.label}>{t('travelMinutes')}</Text>
+                <TextInput value={String(settings.travelMinutes)} onChangeText={v => updateSettings({ travelMinutes: Math.max(0, parseInt(v, 10) || 0) })} keyboardType="number-pad" style={[styles.input, styles.pointsInput]} />
+              </View>
+            </ScrollView>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 16 }}>
+              <Pressable onPress={addCaregiver} style={styles.chipOutline}><Text style={styles.chipOutlineText}>{t('addCaregiver')}</Text></Pressable>
+              <Pressable onPress={() => setCaregiversOpen(false)} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('done')}</Text></Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Week balance */}
+      <Modal visible={statsOpen} animationType="slide" transparent onRequestClose={() => setStatsOpen(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('weekBalanceOf', { range: `${formatDate(weekStart, locale)} – ${formatDate(addDays(weekStart, 6), locale, true)}` })}</Text>
+            <ScrollView style={{ maxHeight: 480 }} contentContainerStyle={{ gap: 6 }}>
+              {statsOpen && shownProfiles.map(p => {
+                const stats = statsFor(p.id);
+                const longest = Math.max(1, ...stats.categories.map(c => c.minutes));
+                return (
+                  <View key={p.id} style={{ gap: 6, marginBottom: 12 }}>
+                    {shownProfiles.length > 1 && <Text style={[styles.headerText, { color: p.accent }]}>{p.name}</Text>}
+                    <Text style={styles.label}>{t('balanceSummary', { busy: formatHours(stats.busy, t), free: formatHours(stats.free, t), start: formatTime(fromMinutes(range.start), clock, locale), end: formatTime(fromMinutes(range.end), clock, locale) })}</Text>
+                    {stats.categories.map(c => (
+                      <View key={c.name} style={styles.taskEditRow}>
+                        <Text style={{ width: 110 }} numberOfLines={1}>{c.name}</Text>
+                        <View style={{ flex: 1 }}>
+                          <View style={[styles.statBar, { width: `${(c.minutes / longest) * 100}%`, backgroundColor: c.color }]} />
+                        </View>
+                        <Text style={{ width: 64, textAlign: 'right' }}>{formatHours(c.minutes, t)}</Text>
+                      </View>
+                    ))}
+                    {!stats.categories.length && <Text style={styles.headerDate}>{t('nothingPlannedWeek')}</Text>}
+                    {stats.days.map(d => (
+                      <View key={d.date} style={styles.taskEditRow}>
+                        <Text style={{ width: 110 }}>{dayName(d.day, locale)}</Text>
+                        <Text style={{ flex: 1, color: '#334155' }}>{t('plannedAmount', { time: formatHours(d.busy, t) })}</Text>
+                        <Text style={[{ width: 130, textAlign: 'right' }, d.overloaded && styles.overloaded]}>{t('freeAmount', { time: formatHours(d.free, t) })}{d.overloaded ? ' ⚠' : ''}</Text>
+                      </View>
+                    ))}
+                  </View>
+                );
+              })}
+            </ScrollView>
+            <Text style={styles.headerDate}>{t('overloadedNote', { time: formatHours(MIN_FREE_MINUTES, t) })}</Text>
+            <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 12 }}>
+              <Pressable onPress={() => setStatsOpen(false)} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('done')}</Text></Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Week templates */}
+      <Modal visible={templatesOpen && !!activeProfile} animationType="slide" transparent onRequestClose={() => setTemplatesOpen(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            {pendingTemplate ? (
+              <ScrollView contentContainerStyle={{ gap: 10 }}>
+                <Text style={styles.modalTitle}>{t('applyTemplate', { name: pendingTemplate.name })}</Text>
+                <Text style={styles.label}>{t('templateEventsFor', { n: pendingTemplate.events.length, name: activeProfile?.name ?? '' })}</Text>
+                <View style={styles.colorRow}>
+                  {(['week', 'ongoing'] as const).map(span => (
+                    <Pressable key={span} onPress={() => setTemplateSpan(span)} style={[styles.dayPill, { backgroundColor: templateSpan === span ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                      <Text style={{ color: templateSpan === span ? '#fff' : '#111827' }}>{span === 'week' ? t('thisWeekOnly') : t('everyWeekFrom', { date: formatDate(weekStart, locale) })}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <Text style={styles.label}>{t(templateSpan === 'week' ? 'templateHelpWeek' : 'templateHelpOngoing')}</Text>
                 <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 8 }}>
-                  <Pressable onPress={() => setOpen(false)} style={[styles.btn, { backgroundColor: '#e5e7eb' }]}><Text>Cancel</Text></Pressable>
+                  <Pressable onPress={() => setPendingTemplate(null)} style={[styles.btn, { backgroundColor: '#e5e7eb' }]}><Text>{t('back')}</Text></Pressable>
                   <View style={{ flexDirection: 'row', gap: 10 }}>
-                    {!!editing?.id && (
-                      <Pressable onPress={() => { if (editing?.id) deleteEvent(editing.id); setOpen(false); }} style={[styles.btn, { backgroundColor: '#ef4444' }]}>
-                        <Text style={{ color: '#fff' }}>Delete</Text>
+                    <Pressable onPress={() => confirmAction(t('replaceEvents'), t(templateSpan === 'week' ? 'replaceEventsWeek' : 'replaceEventsOngoing', { name: activeProfile?.name ?? '' }), () => applyTemplate('replace'), t)} style={[styles.btn, { backgroundColor: '#ef4444' }]}>
+                      <Text style={{ color: '#fff' }}>{t('replace')}</Text>
+                    </Pressable>
+                    <Pressable onPress={() => applyTemplate('merge')} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('merge')}</Text></Pressable>
+                  </View>
+                </View>
+              </ScrollView>
+            ) : (
+              <ScrollView contentContainerStyle={{ gap: 10 }}>
+                <Text style={styles.modalTitle}>{t('templates')}</Text>
+                {[...starterTemplates(t), ...templates].map(tpl => (
+                  <View key={tpl.id} style={styles.taskEditRow}>
+                    <Text style={{ flex: 1 }}>{tpl.name} <Text style={styles.headerDate}>· {t('eventsN', { n: tpl.events.length })}{tpl.id.startsWith('starter:') ? ` · ${t('starterTag')}` : ''}</Text></Text>
+                    <Pressable onPress={() => setPendingTemplate(tpl)} style={[styles.chip, { backgroundColor: accent }]}><Text style={styles.chipText}>{t('apply')}</Text></Pressable>
+                    {!tpl.id.startsWith('starter:') && (
+                      <Pressable onPress={() => confirmAction(t('deleteTemplate'), t('deleteTemplateConfirm', { name: tpl.name }), () => setTemplates(prev => prev.filter(x => x.id !== tpl.id)), t)}>
+                        <Text style={styles.taskRemove}>✕</Text>
+                      </Pressable>
+                    )}
+                  </View>
+                ))}
+                <Text style={[styles.label, { marginTop: 8 }]}>{t('saveWeekAsTemplate', { name: activeProfile?.name ?? '', date: formatDate(weekStart, locale) })}</Text>
+                <View style={styles.taskEditRow}>
+                  <TextInput value={templateName} onChangeText={setTemplateName} onSubmitEditing={saveTemplate} placeholder={t('templatePlaceholder')} style={[styles.input, { flex: 1, padding: 6 }]} />
+                  <Pressable onPress={saveTemplate} style={styles.chipOutline}><Text style={styles.chipOutlineText}>{t('save')}</Text></Pressable>
+                </View>
+                <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 8 }}>
+                  <Pressable onPress={() => setTemplatesOpen(false)} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('done')}</Text></Pressable>
+                </View>
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Stars and rewards */}
+      <Modal visible={rewardsOpen && !!activeProfile} animationType="slide" transparent onRequestClose={() => setRewardsOpen(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            {!!activeProfile && (
+              <ScrollView contentContainerStyle={{ gap: 10 }}>
+                <Text style={styles.modalTitle}>{t('starsOf', { name: activeProfile.name })}</Text>
+                <Text style={styles.headerText}>{t('starsSummary', { balance: starBalance(activeProfile.ledger), earned: starsEarned(activeProfile.ledger, weekStart, addDays(weekStart, 6)) })}</Text>
+                <Text style={styles.label}>{t('rewards')}</Text>
+                {(activeProfile.rewards ?? []).map(r => (
+                  <View key={r.id} style={styles.taskEditRow}>
+                    <Text style={{ flex: 1 }}>{r.title} · {r.cost} ★</Text>
+                    <Pressable onPress={() => redeemReward(r)} style={[styles.chip, { backgroundColor: accent }]}><Text style={styles.chipText}>{t('redeem')}</Text></Pressable>
+                    {!kidMode && (
+                      <Pressable onPress={() => updateProfile(activeProfile.id, { rewards: activeProfile.rewards!.filter(x => x.id !== r.id) })}>
+                        <Text style={styles.taskRemove}>✕</Text>
                       </Pressable>
                     )}
-                    <Pressable onPress={saveEvent} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>Save</Text></Pressable>
                   </View>
+                ))}
+                {!kidMode && (
+                <View style={styles.taskEditRow}>
+                  <TextInput value={rewardDraft.title} onChangeText={v => setRewardDraft({ ...rewardDraft, title: v })} placeholder={t('rewardPlaceholder')} style={[styles.input, { flex: 1, padding: 6 }]} />
+                  <TextInput value={rewardDraft.cost} onChangeText={v => setRewardDraft({ ...rewardDraft, cost: v })} onSubmitEditing={addReward} placeholder="★" keyboardType="number-pad" style={[styles.input, styles.pointsInput]} />
+                  <Pressable onPress={addReward} style={styles.chipOutline}><Text style={styles.chipOutlineText}>{t('add')}</Text></Pressable>
+                </View>
+                )}
+                <Text style={styles.label}>{t('history')}</Text>
+                {!activeProfile.ledger?.length && <Text style={styles.headerDate}>{t('historyEmpty')}</Text>}
+                {(activeProfile.ledger ?? []).slice(-30).reverse().map(x => (
+                  <View key={x.id} style={styles.taskEditRow}>
+                    <Text style={[styles.headerDate, { width: 90 }]}>{formatDate(x.date, locale, true)}</Text>
+                    <Text style={{ flex: 1 }} numberOfLines={1}>{x.label}</Text>
+                    <Text style={{ color: x.points > 0 ? '#16a34a' : '#ef4444', fontWeight: '700' }}>{x.points > 0 ? '+' : ''}{x.points} ★</Text>
+                  </View>
+                ))}
+                <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 8 }}>
+                  <Pressable onPress={() => setRewardsOpen(false)} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('done')}</Text></Pressable>
+                </View>
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Grid settings */}
+      <Modal visible={settingsOpen} animationType="fade" transparent onRequestClose={() => setSettingsOpen(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('gridSettings')}</Text>
+            <View style={{ gap: 10 }}>
+              {(['firstHour', 'lastHour'] as const).map(key => (
+                <View key={key} style={styles.controlsRow}>
+                  <Text style={styles.label}>{t(key)}</Text>
+                  <Pressable disabled={settings[key] <= 0} onPress={() => updateSettings({ [key]: settings[key] - 1 })} style={styles.chipOutline}><Text style={styles.chipOutlineText}>−</Text></Pressable>
+                  <Text style={styles.headerText}>{formatTime(fromMinutes(settings[key] * 60), clock, locale)}</Text>
+                  <Pressable disabled={settings[key] >= 23} onPress={() => updateSettings({ [key]: settings[key] + 1 })} style={styles.chipOutline}><Text style={styles.chipOutlineText}>+</Text></Pressable>
+                </View>
+              ))}
+              <View style={styles.controlsRow}>
+                <Text style={styles.label}>{t('rowSize')}</Text>
+                {([15, 30, 60] as const).map(slotMinutes => (
+                  <Pressable key={slotMinutes} onPress={() => updateSettings({ slotMinutes })} style={[styles.dayPill, { backgroundColor: settings.slotMinutes === slotMinutes ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                    <Text style={{ color: settings.slotMinutes === slotMinutes ? '#fff' : '#111827' }}>{t('minutesN', { n: slotMinutes })}</Text>
+                  </Pressable>
+                ))}
+              </View>
+              <View style={styles.controlsRow}>
+                <Text style={styles.label}>{t('weekStartsOn')}</Text>
+                {(['Monday', 'Sunday'] as const).map(weekStartsOn => (
+                  <Pressable key={weekStartsOn} onPress={() => updateSettings({ weekStartsOn })} style={[styles.dayPill, { backgroundColor: settings.weekStartsOn === weekStartsOn ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                    <Text style={{ color: settings.weekStartsOn === weekStartsOn ? '#fff' : '#111827' }}>{dayName(weekStartsOn, locale)}</Text>
+                  </Pressable>
+                ))}
+              </View>
+              <View style={styles.controlsRow}>
+                <Text style={styles.label}>{t('clock')}</Text>
+                {(['auto', '24h', '12h'] as const).map(choice => (
+                  <Pressable key={choice} onPress={() => updateSettings({ clock: choice })} style={[styles.dayPill, { backgroundColor: settings.clock === choice ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                    <Text style={{ color: settings.clock === choice ? '#fff' : '#111827' }}>{choice === 'auto' ? t('clockAuto') : choice}</Text>
+                  </Pressable>
+                ))}
+              </View>
+              <View style={styles.controlsRow}>
+                <Text style={styles.label}>{t('language')}</Text>
+                {(['auto', ...Object.keys(LANGUAGES)] as Settings['language'][]).map(choice => (
+                  <Pressable key={choice} onPress={() => updateSettings({ language: choice })} style={[styles.dayPill, { backgroundColor: settings.language === choice ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                    <Text style={{ color: settings.language === choice ? '#fff' : '#111827' }}>{choice === 'auto' ? t('languageAuto') : LANGUAGES[choice].name}</Text>
+                  </Pressable>
+                ))}
+              </View>
+              <View style={styles.controlsRow}>
+                <Text style={styles.label}>{t('layout')}</Text>
+                {([['auto', t('layoutAuto')], ['week', t('week')], ['day', t('day')]] as const).map(([layout, name]) => (
+                  <Pressable key={layout} onPress={() => updateSettings({ layout })} style={[styles.dayPill, { backgroundColor: settings.layout === layout ? accent : '#fff', borderColor: '#e5e7eb' }]}>
+                    <Text style={{ color: settings.layout === layout ? '#fff' : '#111827' }}>{name}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+            <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 16 }}>
+              <Pressable onPress={() => setSettingsOpen(false)} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('done')}</Text></Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Events hidden behind a "+N more" marker or outside the visible hours */}
+      <Modal visible={!!moreEvents} animationType="fade" transparent onRequestClose={() => setMoreEvents(null)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('moreEvents')}</Text>
+            <ScrollView style={{ maxHeight: 360 }} contentContainerStyle={{ gap: 8 }}>
+              {(moreEvents ?? []).map(e => {
+                const owner = ownerOf(e.profileId);
+                const color = familyMode && owner ? owner.accent : e.color;
+                return (
+                  <Pressable key={`${e.id}:${e.date}`} disabled={kidMode} onPress={() => { setMoreEvents(null); handleEdit(e); }} style={[styles.moreRow, { borderColor: color, backgroundColor: color + '1A' }]}>
+                    <Text style={[styles.eventTitle, { color }]}>{e.title}</Text>
+                    <Text style={styles.eventMeta}>{formatTime(e.start, clock, locale)} – {formatTime(e.end, clock, locale)}{familyMode && owner ? ` · ${owner.name}` : ''}</Text>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+            <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 12 }}>
+              <Pressable onPress={() => setMoreEvents(null)} style={[styles.btn, { backgroundColor: '#e5e7eb' }]}><Text>{t('close')}</Text></Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* CSV import preview */}
+      <Modal visible={!!csvPreview} animationType="fade" transparent onRequestClose={() => setCsvPreview(null)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('importCsv')}</Text>
+            {!!csvPreview && (
+              <ScrollView style={{ maxHeight: 360 }} contentContainerStyle={{ gap: 6 }}>
+                <Text style={styles.headerText}>{t('validRows', { n: csvPreview.valid.length })}</Text>
+                {csvPreview.valid.map(e => (
+                  <Text key={e.id} style={{ color: '#334155' }}>• {e.title} — {dayName(e.day, locale)} {formatTime(e.start, clock, locale)}–{formatTime(e.end, clock, locale)}</Text>
+                ))}
+                {!!csvPreview.duplicates.length && (
+                  <>
+                    <Text style={[styles.headerText, { marginTop: 8 }]}>{t('alreadyInPlanner', { n: csvPreview.duplicates.length })}</Text>
+                    {csvPreview.duplicates.map(d => (
+                      <Text key={d.row} style={{ color: '#b45309' }}>{t('rowN', { row: d.row, text: d.title })}</Text>
+                    ))}
+                  </>
+                )}
+                {!!csvPreview.rejected.length && (
+                  <>
+                    <Text style={[styles.headerText, { marginTop: 8 }]}>{t('rejectedN', { n: csvPreview.rejected.length })}</Text>
+                    {csvPreview.rejected.map(r => (
+                      <Text key={r.row} style={{ color: '#b91c1c' }}>{t('rowN', { row: r.row, text: r.reason })}</Text>
+                    ))}
+                  </>
+                )}
+              </ScrollView>
+            )}
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 12 }}>
+              <Pressable onPress={() => setCsvPreview(null)} style={[styles.btn, { backgroundColor: '#e5e7eb' }]}><Text>{t('cancel')}</Text></Pressable>
+              <View style={{ flexDirection: 'row', gap: 10 }}>
+                <Pressable onPress={() => confirmAction(t('replaceAll'), t('replaceAllConfirm', { name: activeProfile?.name ?? t('thisChild') }), () => applyCSV('replace'), t)} style={[styles.btn, { backgroundColor: '#ef4444' }]}>
+                  <Text style={{ color: '#fff' }}>{t('replaceAll')}</Text>
+                </Pressable>
+                <Pressable onPress={() => applyCSV('merge')} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('merge')}</Text></Pressable>
+              </View>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Restore from a backup or a shared week */}
+      <Modal visible={restoreOpen} animationType="fade" transparent onRequestClose={() => setRestoreOpen(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('restore')}</Text>
+            <View style={{ gap: 10 }}>
+              {Platform.OS === 'web' && (
+                <Pressable style={styles.chipOutline} onPress={() => pickFileWeb('.json,application/json', restoreFileWeb)}>
+                  <Text style={styles.chipOutlineText}>{t('chooseBackupFile')}</Text>
+                </Pressable>
+              )}
+              <Text style={styles.label}>{t(Platform.OS === 'web' ? 'orPasteBackup' : 'pasteBackup')}</Text>
+              <TextInput value={restoreText} onChangeText={setRestoreText} multiline placeholder='{"app": "kids-weekly-planner", …}' style={[styles.input, { height: 120, textAlignVertical: 'top' }]} />
+            </View>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 12 }}>
+              <Pressable onPress={() => setRestoreOpen(false)} style={[styles.btn, { backgroundColor: '#e5e7eb' }]}><Text>{t('cancel')}</Text></Pressable>
+              <Pressable disabled={!restoreText.trim()} onPress={() => readRestore(restoreText)} style={[styles.btn, { backgroundColor: accent }, !restoreText.trim() && styles.disabled]}><Text style={{ color: '#fff' }}>{t('continue')}</Text></Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Kid mode and the parent PIN */}
+      <Modal visible={lockOpen} animationType="fade" transparent onRequestClose={() => setLockOpen(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t(kidMode ? 'backToParentMode' : 'kidMode')}</Text>
+            <View style={{ gap: 10 }}>
+              {!kidMode && <Text style={{ color: '#334155' }}>{t('kidModeHelp')}</Text>}
+              {(kidMode || !lock) && (
+                <TextInput value={pinDraft.pin} onChangeText={v => setPinDraft({ ...pinDraft, pin: v })} onSubmitEditing={kidMode ? unlock : undefined} placeholder={t(kidMode ? 'parentPin' : 'newPin')} keyboardType="number-pad" secureTextEntry maxLength={8} style={styles.input} />
+              )}
+              {!kidMode && !lock && (
+                <TextInput value={pinDraft.confirm} onChangeText={v => setPinDraft({ ...pinDraft, confirm: v })} placeholder={t('repeatPin')} keyboardType="number-pad" secureTextEntry maxLength={8} style={styles.input} />
+              )}
+              {!kidMode && !!lock && (
+                <Pressable style={styles.chipOutline} onPress={() => setLock(null)}>
+                  <Text style={styles.chipOutlineText}>{t('changePin')}</Text>
+                </Pressable>
+              )}
+            </View>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 12 }}>
+              <Pressable onPress={() => setLockOpen(false)} style={[styles.btn, { backgroundColor: '#e5e7eb' }]}><Text>{t('cancel')}</Text></Pressable>
+              <Pressable onPress={kidMode ? unlock : enterKidMode} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t(kidMode ? 'unlock' : 'startKidMode')}</Text></Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Backup preview */}
+      <Modal visible={!!backupPreview} animationType="fade" transparent onRequestClose={() => setBackupPreview(null)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('restoreTitle', { title: backupPreview?.title ?? '' })}</Text>
+            {!!backupPreview && (
+              <ScrollView style={{ maxHeight: 320 }} contentContainerStyle={{ gap: 6 }}>
+                {backupPreview.profiles.map(p => (
+                  <Text key={p.id} style={{ color: '#334155' }}>{t('backupProfile', { name: p.name, n: p.events.length, stars: starBalance(p.ledger) })}{profiles.some(x => x.id === p.id) ? ` ${t('alreadyHere')}` : ''}</Text>
+                ))}
+                <Text style={[styles.label, { marginTop: 8 }]}>{t('backupHelp')}</Text>
+              </ScrollView>
+            )}
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 12 }}>
+              <Pressable onPress={() => setBackupPreview(null)} style={[styles.btn, { backgroundColor: '#e5e7eb' }]}><Text>{t('cancel')}</Text></Pressable>
+              <View style={{ flexDirection: 'row', gap: 10 }}>
+                <Pressable onPress={() => confirmAction(t('replacePlanner'), t('replacePlannerConfirm'), () => applyBackup('replace'), t)} style={[styles.btn, { backgroundColor: '#ef4444' }]}>
+                  <Text style={{ color: '#fff' }}>{t('replace')}</Text>
+                </Pressable>
+                <Pressable onPress={() => applyBackup('merge')} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('merge')}</Text></Pressable>
+              </View>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Shared week import */}
+      <Modal visible={!!sharedWeek} animationType="fade" transparent onRequestClose={() => setSharedWeek(null)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            {!!sharedWeek && <Text style={styles.modalTitle}>{t(sharedWeek.name ? 'sharedWeekOf' : 'sharedWeekOfUnnamed', { name: sharedWeek.name, date: formatDate(sharedWeek.weekStart, locale, true) })}</Text>}
+            {!!sharedWeek && (
+              <ScrollView style={{ maxHeight: 320 }} contentContainerStyle={{ gap: 6 }}>
+                {sharedWeek.events.map(e => (
+                  <Text key={e.id} style={{ color: '#334155' }}>• {e.title} — {dayName(e.day, locale)} {formatTime(e.start, clock, locale)}–{formatTime(e.end, clock, locale)}</Text>
+                ))}
+                {!sharedWeek.events.length && <Text style={styles.label}>{t('weekEmpty')}</Text>}
+                <Text style={[styles.label, { marginTop: 8 }]}>{t('addTo')}</Text>
+                <View style={styles.colorRow}>
+                  {profiles.map(p => (
+                    <Pressable key={p.id} onPress={() => setShareTarget(p.id)} style={[styles.dayPill, { backgroundColor: shareTarget === p.id ? p.accent : '#fff', borderColor: p.accent }]}>
+                      <Text style={{ color: shareTarget === p.id ? '#fff' : '#111827' }}>{p.name}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </ScrollView>
+            )}
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 12 }}>
+              <Pressable onPress={() => setSharedWeek(null)} style={[styles.btn, { backgroundColor: '#e5e7eb' }]}><Text>{t('cancel')}</Text></Pressable>
+              <Pressable disabled={!sharedWeek?.events.length} onPress={importSharedWeek} style={[styles.btn, { backgroundColor: accent }, !sharedWeek?.events.length && styles.disabled]}><Text style={{ color: '#fff' }}>{t('import')}</Text></Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Calendar import summary */}
+      <Modal visible={!!importSummary} animationType="fade" transparent onRequestClose={() => setImportSummary(null)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('importedN', { n: importSummary?.imported ?? 0 })}</Text>
+            {!!importSummary?.skipped.length && (
+              <ScrollView style={{ maxHeight: 320 }} contentContainerStyle={{ gap: 6 }}>
+                <Text style={styles.label}>{t('skippedN', { n: importSummary.skipped.length })}</Text>
+                {importSummary.skipped.map((s, i) => (
+                  <Text key={i} style={{ color: '#334155' }}>• {s.title} — {s.reason}</Text>
+                ))}
+              </ScrollView>
+            )}
+            <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 12 }}>
+              <Pressable onPress={() => setImportSummary(null)} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('ok')}</Text></Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Child profile modal */}
+      <Modal visible={profileOpen && !!activeProfile} animationType="slide" transparent onRequestClose={() => setProfileOpen(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('childProfile')}</Text>
+            {!!activeProfile && (
+              <View style={{ gap: 10 }}>
+                <View>
+                  <Text style={styles.label}>{t('name')}</Text>
+                  <TextInput value={activeProfile.name} onChangeText={v => updateProfile(activeProfile.id, { name: v })} placeholder={t('namePlaceholder')} style={styles.input} />
+                </View>
+                <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 8 }}>
+                  {profiles.length > 1 ? (
+                    <Pressable
+                      onPress={() => confirmAction(t('deleteProfile'), t('deleteProfileConfirm', { name: activeProfile.name }), () => {
+                        deleteProfile(activeProfile.id);
+                        setProfileOpen(false);
+                      }, t)}
+                      style={[styles.btn, { backgroundColor: '#ef4444' }]}
+                    >
+                      <Text style={{ color: '#fff' }}>{t('delete')}</Text>
+                    </Pressable>
+                  ) : <View />}
+                  <Pressable onPress={() => setProfileOpen(false)} style={[styles.btn, { backgroundColor: accent }]}><Text style={{ color: '#fff' }}>{t('done')}</Text></Pressable>
                 </View>
               </View>
             )}
@@ -457,6 +2153,13 @@ export default function KidsWeeklyPlanner() {
 }
 const styles = StyleSheet.create({
   screen: { flex: 1, padding: 16 },
+  centered: { alignItems: 'center', justifyContent: 'center', gap: 8 },
+  errorBanner: { flexDirection: 'row', alignItems: 'center', gap: 10, padding: 10, marginBottom: 8, borderRadius: 8, backgroundColor: '#fef2f2', borderWidth: 1, borderColor: '#fecaca' },
+  errorText: { flex: 1, color: '#b91c1c' },
+  disabled: { opacity: 0.4 },
+  statBar: { height: 10, borderRadius: 999 },
+  overloaded: { color: '#b91c1c', fontWeight: '700' },
+  legendChip: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 999, borderWidth: 1 },
   header: { padding: 12, borderRadius: 12, backgroundColor: '#fff', marginBottom: 12, shadowColor: '#000', shadowOpacity: 0.06, shadowRadius: 8, elevation: 2 },
   photoAndTitle: { flexDirection: 'row', alignItems: 'center', gap: 12 },
   photoWrapper: { width: 64, height: 64, borderRadius: 16, overflow: 'hidden', borderWidth: 2, backgroundColor: '#fff' },
@@ -472,18 +2175,48 @@ const styles = StyleSheet.create({
   colorRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
   colorDot: { width: 22, height: 22, borderRadius: 999, borderWidth: 2 },
   body: { flex: 1, backgroundColor: '#fff', borderRadius: 12, padding: 8, shadowColor: '#000', shadowOpacity: 0.06, shadowRadius: 8, elevation: 2 },
-  cellHeader: { paddingVertical: 10, alignItems: 'center', borderBottomWidth: 1, borderColor: '#e5e7eb' },
+  cellHeader: { paddingVertical: 10, paddingHorizontal: 6, alignItems: 'center', borderBottomWidth: 1, borderColor: '#e5e7eb' },
   headerText: { fontWeight: '600' },
+  headerDate: { fontSize: 11, color: '#64748b', marginTop: 2 },
   cell: { borderWidth: 1, borderColor: '#e5e7eb', backgroundColor: '#f8fafc' },
-  eventBlock: { position: 'absolute', left: 4, right: 4, borderRadius: 12, borderWidth: 1, padding: 8, backgroundColor: '#0000000D' },
+  eventBlock: { position: 'absolute', borderRadius: 12, borderWidth: 1, padding: 8, backgroundColor: '#0000000D', overflow: 'hidden', userSelect: 'none' },
+  eventBlockNarrow: { padding: 4, borderRadius: 8 },
+  eventBlockClash: { borderColor: '#ef4444', borderWidth: 2 },
+  resizeHandle: { position: 'absolute', left: 0, right: 0, bottom: 0, height: 10, alignItems: 'center', justifyContent: 'center' },
+  resizeGrip: { width: 24, height: 3, borderRadius: 2, opacity: 0.6 },
+  moreMarker: { position: 'absolute', paddingVertical: 4, borderRadius: 8, borderWidth: 1, borderStyle: 'dashed', backgroundColor: '#fff', alignItems: 'center' },
+  moreText: { fontSize: 11, fontWeight: '700' },
+  offRange: { marginTop: 4, paddingHorizontal: 8, paddingVertical: 2, borderRadius: 999, borderWidth: 1, backgroundColor: '#fff' },
+  moreRow: { borderWidth: 1, borderRadius: 8, padding: 8 },
   eventHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
   eventTitle: { fontWeight: '700', fontSize: 12 },
   eventEdit: { fontSize: 11, textDecorationLine: 'underline', color: '#334155' },
   eventMeta: { marginTop: 2, color: '#334155' },
   eventCat: { marginTop: 2, fontStyle: 'italic', color: '#475569' },
   eventNotes: { marginTop: 4, color: '#475569' },
+  nowCard: { borderWidth: 2, borderRadius: 16, padding: 16 },
+  nowLabel: { fontSize: 14, fontWeight: '700', textTransform: 'uppercase', letterSpacing: 1 },
+  nowTitle: { fontSize: 30, fontWeight: '800', color: '#111827', marginTop: 4 },
+  nowMeta: { fontSize: 18, color: '#475569', marginTop: 2 },
+  nowNotes: { fontSize: 20, color: '#111827', marginTop: 6 },
+  agendaTasks: { paddingHorizontal: 4 },
+  agendaTask: { fontSize: 16, color: '#334155' },
+  agendaRow: { flexDirection: 'row', gap: 12, borderWidth: 1, borderRadius: 12, padding: 12 },
+  agendaTime: { width: 64 },
+  agendaTitle: { fontSize: 18, fontWeight: '700' },
+  taskRow: { marginTop: 2, alignSelf: 'stretch' },
+  taskText: { fontSize: 11, color: '#334155' },
+  taskDone: { color: '#94a3b8', textDecorationLine: 'line-through' },
+  taskEditRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 6 },
+  pointsInput: { width: 48, padding: 6, textAlign: 'center' },
+  starPill: { alignItems: 'center', paddingHorizontal: 10, paddingVertical: 6, borderRadius: 16, borderWidth: 2, backgroundColor: '#fff' },
+  starCount: { fontSize: 18, fontWeight: '700' },
+  taskBox: { fontSize: 18 },
+  taskRemove: { fontSize: 14, color: '#ef4444', paddingHorizontal: 4 },
+  eventOwner: { alignSelf: 'flex-start', marginTop: 2, paddingHorizontal: 6, borderRadius: 999, overflow: 'hidden', color: '#fff', fontSize: 10, fontWeight: '600' },
+  profileChip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 999, borderWidth: 1 },
   modalBackdrop: { flex: 1, backgroundColor: 'rgba(0,0,0,0.25)', justifyContent: 'center', padding: 16 },
-  modalCard: { backgroundColor: '#fff', borderRadius: 12, padding: 16 },
+  modalCard: { backgroundColor: '#fff', borderRadius: 12, padding: 16, maxHeight: '90%' },
   modalTitle: { fontSize: 18, fontWeight: '600', marginBottom: 16, color: '#111827' },
   dayPill: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, borderWidth: 1 },
   btn: { paddingHorizontal: 16, paddingVertical: 10, borderRadius: 8, alignItems: 'center' },
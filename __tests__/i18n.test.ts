@@ -0,0 +1,34 @@
+import { LANGUAGES, STRINGS, clockFor, translator } from '../i18n';
+import { DAYS, dayName } from '../plannerCore';
+
+const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+
+describe('translations', () => {
+  test('every language has every string with the same placeholders', () => {
+    for (const language of Object.keys(LANGUAGES) as (keyof typeof LANGUAGES)[]) {
+      for (const [key, text] of Object.entries(STRINGS.en)) {
+        const translated = STRINGS[language][key as keyof typeof STRINGS.en];
+        expect(translated).toBeTruthy();
+        expect([key, placeholders(translated)]).toEqual([key, placeholders(text)]);
+      }
+    }
+  });
+  test('fills in placeholders and leaves unknown ones visible', () => {
+    const t = translator('en');
+    expect(t('deleteProfileConfirm', { name: 'Ada' })).toBe('Delete Ada and all their events?');
+    expect(t('deleteProfileConfirm')).toBe('Delete {name} and all their events?');
+    expect(translator('tr')('deleteProfileConfirm', { name: 'Ada' })).toBe('Ada ve tüm etkinlikleri silinsin mi?');
+  });
+});
+
+describe('locale formatting', () => {
+  test('day names follow the locale', () => {
+    expect(DAYS.map(d => dayName(d, 'en-US', 'short'))).toEqual(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']);
+    expect(dayName('Monday', 'tr')).toBe('Pazartesi');
+  });
+  test('the automatic clock follows the locale', () => {
+    expect(clockFor('auto', 'en-US')).toBe('12h');
+    expect(clockFor('auto', 'tr')).toBe('24h');
+    expect(clockFor('24h', 'en-US')).toBe('24h');
+  });
+});
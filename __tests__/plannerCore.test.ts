@@ -0,0 +1,437 @@
+import { translator } from '../i18n';
+import {
+  DragGrid, EventItem, Occurrence, PlannerDoc, Profile, Slot, addDays, assignedTo, clearDates, copyEvent, daysBetween, decodeWeek,
+  defaultSettings, dragResult, encodeWeek, eventsFromTemplate, formatHours, formatTime, handoverClashes, handoversOf, hashPin, isISODate,
+  layoutColumn, layoutDay, mergeDocs, migrateDoc, moveOccurrence, nowNext, occurrencesInWeek, occursOn, overlaps, parseBackup, parseICS, previewCSV,
+  printHTML, renameCategoryIn, sha256, sortOccurrences, startOfWeek, toBackup, toCSV, toICS, toMinutes, validateEvent, weekFromText,
+  unassignCaregiver, weekStats, withCategories,
+} from '../plannerCore';
+
+const t = translator('en');
+const MONDAY = '2025-09-08';
+
+function event(patch: Partial<EventItem> = {}): EventItem {
+  return { id: 'e1', title: 'Piano', day: 'Monday', start: '16:00', end: '17:00', category: '', color: '#2563eb', notes: '', repeat: { days: ['Monday'], every: 1 }, ...patch };
+}
+function occurrence(patch: Partial<Occurrence> = {}): Occurrence {
+  return { ...event(), repeat: undefined, date: MONDAY, ...patch };
+}
+
+describe('time and dates', () => {
+  test('converts between HH:MM and minutes', () => {
+    expect(toMinutes('07:30')).toBe(450);
+    expect(toMinutes('24:00')).toBe(1440);
+  });
+  test('formats 12h and 24h clocks for the locale', () => {
+    // ICU may put a narrow no-break space before the day period.
+    const time = (value: string, locale: string) => formatTime(value, '12h', locale).replace(/\s/g, ' ');
+    expect(time('00:05', 'en-US')).toBe('12:05 AM');
+    expect(time('12:00', 'en-US')).toBe('12:00 PM');
+    expect(time('17:45', 'en-US')).toBe('5:45 PM');
+    expect(time('24:00', 'en-US')).toBe('12:00 AM');
+    expect(time('17:45', 'tr-TR')).toBe('ÖS 5:45');
+    expect(formatTime('17:45', '24h', 'en-US')).toBe('17:45');
+  });
+  test('validates ISO dates', () => {
+    expect(isISODate('2024-02-29')).toBe(true);
+    expect(isISODate('2025-02-29')).toBe(false);
+    expect(isISODate('2025-9-8')).toBe(false);
+  });
+  test('counts days across a daylight saving change', () => {
+    expect(daysBetween('2025-03-24', '2025-04-07')).toBe(14);
+    expect(addDays('2025-03-29', 2)).toBe('2025-03-31');
+  });
+  test('finds the start of the week', () => {
+    expect(startOfWeek('2025-09-14')).toBe(MONDAY);
+    expect(startOfWeek('2025-09-14', 'Sunday')).toBe('2025-09-14');
+    expect(startOfWeek('2025-09-13', 'Sunday')).toBe('2025-09-07');
+  });
+  test('formats durations', () => {
+    expect(formatHours(80, t)).toBe('1h 20m');
+    expect(formatHours(120, t)).toBe('2h');
+    expect(formatHours(45, t)).toBe('45m');
+  });
+});
+
+describe('repeats', () => {
+  test('a weekly series respects from, until and skipped dates', () => {
+    const e = event({ repeat: { days: ['Monday', 'Wednesday'], every: 1, from: MONDAY, until: '2025-09-30' }, skip: ['2025-09-15'] });
+    expect(occursOn(e, '2025-09-01')).toBe(false);
+    expect(occursOn(e, MONDAY)).toBe(true);
+    expect(occursOn(e, '2025-09-10')).toBe(true);
+    expect(occursOn(e, '2025-09-15')).toBe(false);
+    expect(occursOn(e, '2025-10-06')).toBe(false);
+  });
+  test('every other week counts from the first week', () => {
+    const e = event({ repeat: { days: ['Monday'], every: 2, from: MONDAY } });
+    expect([0, 7, 14, 21].map(n => occursOn(e, addDays(MONDAY, n)))).toEqual([true, false, true, false]);
+  });
+  test('per-date changes apply to that occurrence only', () => {
+    const e = event({ changes: { '2025-09-15': { start: '15:00' } } });
+    expect(occurrencesInWeek(e, MONDAY)[0].start).toBe('16:00');
+    expect(occurrencesInWeek(e, '2025-09-15')[0]).toMatchObject({ start: '15:00', date: '2025-09-15' });
+  });
+  test('clearing a date skips it for series and removes one-offs', () => {
+    const once = event({ id: 'once', repeat: undefined, date: '2025-09-10', day: 'Wednesday' });
+    const [series, ...rest] = clearDates([event({ repeat: { days: ['Monday'], every: 1 } }), once], MONDAY, addDays(MONDAY, 6));
+    expect(series.skip).toEqual([MONDAY]);
+    expect(rest).toEqual([]);
+  });
+  test('clearing from a date on ends open series the day before', () => {
+    const [series] = clearDates([event({ repeat: { days: ['Monday'], every: 1, from: '2025-09-01' } })], MONDAY);
+    expect(series.repeat?.until).toBe('2025-09-07');
+  });
+});
+
+describe('validation', () => {
+  test('accepts a valid event', () => {
+    expect(validateEvent(event(), t)).toBeNull();
+    expect(validateEvent(event({ start: '23:00', end: '24:00' }), t)).toBeNull();
+  });
+  test('reports the first problem', () => {
+    expect(validateEvent(event({ title: ' ' }), t)).toBe('Please add a title');
+    expect(validateEvent(event({ start: '9:00' }), t)).toBe('Times must be HH:MM');
+    expect(validateEvent(event({ start: '24:00', end: '24:00' }), t)).toBe('Times must be HH:MM');
+    expect(validateEvent(event({ start: '17:00', end: '16:00' }), t)).toBe('End time must be after start time');
+    expect(validateEvent(event({ repeat: { days: [], every: 1 } }), t)).toBe('Pick at least one day to repeat on');
+    expect(validateEvent(event({ repeat: { days: ['Monday'], every: 1.5 } }), t)).toBe('Repeat every must be a whole number of weeks');
+    expect(validateEvent(event({ repeat: { days: ['Monday'], every: 2 } }), t)).toBe('Repeating every few weeks needs a start date');
+    expect(validateEvent(event({ repeat: { days: ['Monday'], every: 1, from: '2025-13-01' } }), t)).toBe('Dates must be YYYY-MM-DD');
+    expect(validateEvent(event({ repeat: { days: ['Monday'], every: 1, from: MONDAY, until: '2025-09-01' } }), t)).toBe('The series must end after it starts');
+  });
+});
+
+describe('sorting and overlaps', () => {
+  test('sorts by day of the week in view, then start and end', () => {
+    const items = [
+      occurrence({ id: 'sun', day: 'Sunday', start: '08:00', end: '09:00' }),
+      occurrence({ id: 'late', start: '10:00', end: '11:00' }),
+      occurrence({ id: 'long', start: '09:00', end: '12:00' }),
+      occurrence({ id: 'short', start: '09:00', end: '10:00' }),
+    ];
+    expect(sortOccurrences(items, ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']).map(e => e.id)).toEqual(['short', 'long', 'late', 'sun']);
+    expect(sortOccurrences(items, ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'])[0].id).toBe('sun');
+    expect(items[0].id).toBe('sun');
+  });
+  test('events that only touch do not overlap', () => {
+    expect(overlaps(event(), event({ start: '17:00', end: '18:00' }))).toBe(false);
+    expect(overlaps(event(), event({ start: '16:30', end: '18:00' }))).toBe(true);
+    expect(overlaps(event(), event({ day: 'Tuesday' }))).toBe(false);
+  });
+  test('overlapping events share lanes and the rest go behind "+N more"', () => {
+    const items = ['09:00', '09:10', '09:20', '09:30'].map((start, i) => ({ id: i, start, end: '10:00' }));
+    const two = layoutColumn(items.slice(0, 2));
+    expect(two.blocks.map(b => [b.item.id, b.lane, b.lanes])).toEqual([[0, 0, 2], [1, 1, 2]]);
+    const crowded = layoutColumn(items, 3);
+    expect(crowded.blocks).toHaveLength(2);
+    expect(crowded.more[0].items.map(i => i.id)).toEqual([2, 3]);
+  });
+  test('events outside the visible hours are listed before or after the grid', () => {
+    const day = layoutDay([occurrence({ start: '06:00', end: '06:30' }), occurrence({ start: '22:00', end: '23:00' }), occurrence()], defaultSettings);
+    expect([day.before.length, day.blocks.length, day.after.length]).toEqual([1, 1, 1]);
+  });
+  test('dragging snaps, keeps the length and stays inside the grid', () => {
+    const grid: DragGrid = { step: 15, pxPerMinute: 1, range: { start: 7 * 60, end: 22 * 60 }, days: ['Monday', 'Tuesday'] };
+    const slot: Slot = { day: 'Monday', start: '16:00', end: '17:00' };
+    expect(dragResult(slot, 'move', 170, 38, grid)).toEqual({ day: 'Tuesday', start: '16:45', end: '17:45' });
+    expect(dragResult(slot, 'move', 0, 1000, grid)).toEqual({ day: 'Monday', start: '21:00', end: '22:00' });
+    expect(dragResult(slot, 'resize', 0, -120, grid)).toEqual({ day: 'Monday', start: '16:00', end: '16:15' });
+  });
+  test('dropping a block of a series changes only that date', () => {
+    const WEDNESDAY = addDays(MONDAY, 2);
+    const school = event({ title: 'School', start: '08:00', end: '15:00', repeat: { days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'], every: 1 }, changes: { [WEDNESDAY]: { title: 'Trip' } } });
+    const [resized] = moveOccurrence(school, WEDNESDAY, { day: 'Wednesday', start: '08:00', end: '13:00' }, WEDNESDAY);
+    expect(resized.repeat).toEqual(school.repeat);
+    expect(resized.end).toBe('15:00');
+    expect(resized.changes).toEqual({ [WEDNESDAY]: { title: 'Trip', end: '13:00', start: '08:00' } });
+
+    const [series, oneOff] = moveOccurrence(school, WEDNESDAY, { day: 'Thursday', start: '09:00', end: '16:00' }, addDays(MONDAY, 3));
+    expect(series).toMatchObject({ repeat: school.repeat, start: '08:00', end: '15:00', skip: [WEDNESDAY], changes: {} });
+    expect(oneOff).toMatchObject({ title: 'Trip', day: 'Thursday', date: addDays(MONDAY, 3), start: '09:00', end: '16:00' });
+    expect(oneOff.id).not.toBe(school.id);
+    expect(oneOff.repeat).toBeUndefined();
+    expect(oneOff.changes).toBeUndefined();
+  });
+});
+
+describe('caregivers', () => {
+  const week = (patches: Partial<Occurrence>[]) => patches.map((patch, i) => occurrence({ id: `e${i}`, ...patch }));
+
+  test('drop-offs happen at the start and pick-ups at the end', () => {
+    expect(handoversOf(occurrence({ dropOff: 'mom', pickUp: '' })).map(h => [h.duty, h.caregiver, h.time])).toEqual([['dropOff', 'mom', '16:00']]);
+    expect(handoversOf(occurrence({ pickUp: 'dad' })).map(h => [h.duty, h.time])).toEqual([['pickUp', '17:00']]);
+    expect(assignedTo(event({ pickUp: 'dad' }), 'dad')).toBe(true);
+    expect(assignedTo(event({ pickUp: 'dad' }), 'mom')).toBe(false);
+  });
+  test('flags handovers in different places closer than the travel time', () => {
+    const events = week([
+      { title: 'Piano', start: '15:00', end: '16:00', pickUp: 'mom' },
+      { title: 'Swim', start: '16:10', end: '17:00', dropOff: 'mom' },
+      { title: 'Chess', start: '16:00', end: '17:00', dropOff: 'dad' },
+    ]);
+    const clashes = handoverClashes(events, 15);
+    expect(clashes.map(c => [c.caregiver, c.first.event.title, c.first.duty, c.second.event.title, c.second.duty])).toEqual([['mom', 'Piano', 'pickUp', 'Swim', 'dropOff']]);
+    expect(handoverClashes(events, 10)).toEqual([]);
+  });
+  test('handovers at the same time clash even without travel time', () => {
+    expect(handoverClashes(week([{ title: 'Piano', dropOff: 'mom' }, { title: 'Swim', dropOff: 'mom' }]), 0)).toHaveLength(1);
+  });
+  test('handovers in one place do not clash', () => {
+    expect(handoverClashes(week([{ start: '16:00', end: '16:10', dropOff: 'mom', pickUp: 'mom' }]), 15)).toEqual([]);
+    expect(handoverClashes(week([{ title: 'School', dropOff: 'mom' }, { title: 'school ', dropOff: 'mom' }]), 15)).toEqual([]);
+  });
+  test('deleting a caregiver unassigns them on per-date changes too', () => {
+    const e = unassignCaregiver(event({ dropOff: 'mom', pickUp: 'dad', changes: { [MONDAY]: { pickUp: 'mom' } } }), 'mom');
+    expect([e.dropOff, e.pickUp, e.changes?.[MONDAY].pickUp]).toEqual(['', 'dad', '']);
+  });
+  test('handovers on different days do not clash', () => {
+    expect(handoverClashes(week([{ dropOff: 'mom' }, { title: 'Swim', day: 'Tuesday', date: '2025-09-09', dropOff: 'mom' }]), 15)).toEqual([]);
+  });
+});
+
+describe('today and statistics', () => {
+  test('finds what is on now and what comes next', () => {
+    const items = [occurrence({ id: 'a', start: '08:00', end: '15:00' }), occurrence({ id: 'b', start: '16:00', end: '17:00' })];
+    expect(nowNext(items, 9 * 60)).toMatchObject({ now: [{ id: 'a' }], next: { id: 'b' } });
+    expect(nowNext(items, 15 * 60)).toMatchObject({ now: [], next: { id: 'b' } });
+    expect(nowNext(items, 17 * 60)).toEqual({ now: [], next: null });
+  });
+  test('counts parallel events once per day and flags overloaded days', () => {
+    const categories = [{ id: 'c1', name: 'School', color: '#2563eb', icon: '📚' }];
+    const items = [
+      occurrence({ id: 'a', category: 'school', start: '08:00', end: '15:00' }),
+      occurrence({ id: 'b', start: '14:00', end: '20:00' }),
+    ];
+    const stats = weekStats(items, categories, MONDAY, { start: 7 * 60, end: 22 * 60 }, t);
+    expect(stats.categories).toEqual([
+      { name: 'School', color: '#2563eb', minutes: 420 },
+      { name: 'Other', color: '#94a3b8', minutes: 360 },
+    ]);
+    expect(stats.days[0]).toMatchObject({ busy: 720, free: 180, overloaded: false });
+    expect(stats.days[1]).toMatchObject({ busy: 0, free: 900 });
+  });
+});
+
+describe('categories and templates', () => {
+  test('registers new categories once, ignoring case and spaces', () => {
+    const { categories, events } = withCategories([], [event({ category: 'Sport ' }), event({ id: 'e2', category: 'sport', color: '#ef4444' })]);
+    expect(categories).toHaveLength(1);
+    expect(categories[0]).toMatchObject({ name: 'Sport', color: '#2563eb' });
+    expect(events.map(e => e.category)).toEqual(['Sport', 'Sport']);
+  });
+  test('renames a category on per-date changes too', () => {
+    const renamed = renameCategoryIn(event({ category: 'Sport', changes: { [MONDAY]: { category: 'sport' } } }), 'Sport', 'Football');
+    expect(renamed.category).toBe('Football');
+    expect(renamed.changes?.[MONDAY].category).toBe('Football');
+  });
+  test('copies get new ids for the event and its tasks', () => {
+    const copy = copyEvent(event({ tasks: [{ id: 't1', text: 'Bag' }] }), 'Friday', '2025-09-12');
+    expect(copy.id).not.toBe('e1');
+    expect(copy.tasks?.[0].id).not.toBe('t1');
+    expect(copy.repeat?.days).toEqual(['Friday']);
+  });
+  test('templates become dated events or series from a week', () => {
+    const template = { id: 'x', name: 'Week', events: [{ title: 'Swim', day: 'Wednesday' as const, start: '15:00', end: '16:00', category: '', color: '#22c55e' }] };
+    expect(eventsFromTemplate(template, MONDAY, 'week')[0]).toMatchObject({ date: '2025-09-10', day: 'Wednesday' });
+    expect(eventsFromTemplate(template, MONDAY, 'ongoing')[0].repeat).toEqual({ days: ['Wednesday'], every: 1, from: MONDAY });
+  });
+});
+
+describe('parent PIN', () => {
+  test('SHA-256 matches the standard test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+  test('the PIN hash depends on the salt', () => {
+    expect(hashPin('1234', 'a')).toBe(hashPin('1234', 'a'));
+    expect(hashPin('1234', 'a')).not.toBe(hashPin('1234', 'b'));
+  });
+});
+
+describe('CSV', () => {
+  test('round-trips events with quotes, commas, repeats, tasks and caregivers', () => {
+    const original = event({ title: 'Piano, "grade 2"', notes: 'Line one\nline two', skip: ['2025-09-15'], tasks: [{ id: 't1', text: 'Music', points: 2 }], points: 3, dropOff: 'mom', pickUp: 'dad' });
+    const preview = previewCSV(toCSV([original]), [], '#000000', t);
+    expect(preview.rejected).toEqual([]);
+    expect(preview.valid).toEqual([original]);
+  });
+  test('rejects bad rows with their spreadsheet row numbers', () => {
+    const csv = 'title,day,start,end\nSwim,Funday,10:00,11:00\nSwim,Monday,11:00,10:00\nRun,Monday,10:00,11:00\nRun,Monday,10:00,11:00\n';
+    const preview = previewCSV(csv, [], '#000000', t);
+    expect(preview.valid).toHaveLength(1);
+    expect(preview.rejected).toEqual([
+      { row: 2, reason: '"Funday" is not a day of the week' },
+      { row: 3, reason: 'end must be after start' },
+      { row: 5, reason: 'duplicate of row 4' },
+    ]);
+  });
+  test('rejects tasks and changes of the wrong shape', () => {
+    const csv = [
+      'title,day,start,end,tasks,changes',
+      'Swim,Monday,10:00,11:00,"{""id"":""t1""}",',
+      'Run,Monday,10:00,11:00,"[{""id"":""t1"",""text"":""Shoes"",""points"":0}]",',
+      'Ride,Monday,10:00,11:00,,"[]"',
+      'Read,Monday,10:00,11:00,,"{""next week"":{""title"":""Comics""}}"',
+      'Draw,Monday,10:00,11:00,"[{""id"":""t1"",""text"":""Pens"",""points"":1}]","{""2025-09-15"":{""title"":""Paint""}}"',
+    ].join('\n');
+    const preview = previewCSV(csv, [], '#000000', t);
+    expect(preview.valid.map(e => e.title)).toEqual(['Draw']);
+    expect(preview.rejected).toEqual([
+      { row: 2, reason: 'tasks must be a list of {id, text} with optional positive whole-number points' },
+      { row: 3, reason: 'tasks must be a list of {id, text} with optional positive whole-number points' },
+      { row: 4, reason: 'changes must map YYYY-MM-DD dates to changes' },
+      { row: 5, reason: 'changes must map YYYY-MM-DD dates to changes' },
+    ]);
+  });
+  test('accepts events ending at midnight', () => {
+    const preview = previewCSV('title,day,start,end\nSleepover,Friday,20:00,24:00\nLate,Friday,20:00,24:30\n', [], '#000000', t);
+    expect(preview.valid.map(e => e.end)).toEqual(['24:00']);
+    expect(preview.rejected).toEqual([{ row: 3, reason: 'end "24:30" is not HH:MM' }]);
+  });
+  test('rejects repeats every few weeks without a start date', () => {
+    const preview = previewCSV('title,day,start,end,repeat_days,repeat_every\nSwim,Monday,10:00,11:00,Monday,2\n', [], '#000000', t);
+    expect(preview.rejected).toEqual([{ row: 2, reason: 'repeat_every above 1 needs repeat_from' }]);
+  });
+  test('reports missing columns and unterminated quotes', () => {
+    expect(() => previewCSV('title,day\n', [], '#000000', t)).toThrow('Missing columns: start, end');
+    expect(() => previewCSV('title,day,start,end\n"Swim,Monday', [], '#000000', t)).toThrow('Unterminated quoted field');
+  });
+  test('marks rows that match existing events', () => {
+    const preview = previewCSV('title,day,start,end\npiano,Monday,16:00,17:00\n', [event()], '#000000', t);
+    expect(preview.duplicates).toEqual([{ row: 2, title: 'piano', matchId: 'e1' }]);
+  });
+});
+
+describe('iCalendar', () => {
+  test('round-trips a weekly series with skipped and changed dates', () => {
+    const changes = { '2025-09-11': { title: 'Recital', start: '18:00', end: '19:30' } };
+    const original = event({ category: 'Music', notes: 'Bring; book', repeat: { days: ['Monday', 'Thursday'], every: 2, from: MONDAY, until: '2025-12-19' }, skip: ['2025-09-22'], changes });
+    const ics = toICS([original], 'Ada');
+    expect(ics).toContain('RECURRENCE-ID:20250911T160000');
+    const { events, summary } = parseICS(ics, '#000000', t);
+    expect(summary).toEqual({ imported: 1, skipped: [] });
+    expect(events[0]).toMatchObject({ id: 'e1', title: 'Piano', category: 'Music', notes: 'Bring; book', skip: ['2025-09-22'], changes, repeat: { days: ['Monday', 'Thursday'], every: 2, from: MONDAY, until: '2025-12-19' } });
+  });
+  test('writes a midnight end as 00:00 the next day', () => {
+    const ics = toICS([event({ date: MONDAY, start: '22:00', end: '24:00', repeat: undefined })], 'Ada');
+    expect(ics).not.toContain('T240000');
+    expect(ics).toContain('DTEND:20250909T000000');
+    expect(parseICS(ics, '#000000', t, { start: 0, end: 24 * 60 }).events[0]).toMatchObject({ date: MONDAY, start: '22:00', end: '24:00' });
+  });
+  test('skips what the planner cannot show, with a reason', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT', 'SUMMARY:Trip', 'DTSTART;VALUE=DATE:20250908', 'END:VEVENT',
+      'BEGIN:VEVENT', 'SUMMARY:Late', 'DTSTART:20250908T230000', 'DTEND:20250908T235900', 'END:VEVENT',
+      'BEGIN:VEVENT', 'SUMMARY:Monthly', 'DTSTART:20250908T100000', 'DURATION:PT1H', 'RRULE:FREQ=MONTHLY', 'END:VEVENT',
+      'BEGIN:VEVENT', 'DTSTART:20250908T100000', 'DURATION:PT1H30M', 'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+    const { events, summary } = parseICS(ics, '#000000', t, { start: 7 * 60, end: 22 * 60 });
+    expect(events).toMatchObject([{ title: 'Untitled', start: '10:00', end: '11:30', date: MONDAY }]);
+    expect(summary.skipped).toEqual([
+      { title: 'Trip', reason: 'all-day or missing start time' },
+      { title: 'Late', reason: '23:00–23:59 is outside the 07:00–22:00 grid' },
+      { title: 'Monthly', reason: 'repeat rule is not a simple weekly one' },
+    ]);
+  });
+  test('a COUNT ends the series on its last occurrence', () => {
+    const ics = 'BEGIN:VEVENT\nDTSTART:20250908T100000\nDTEND:20250908T110000\nRRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3\nEND:VEVENT\n';
+    expect(parseICS(ics, '#000000', t).events[0].repeat?.until).toBe('2025-09-15');
+  });
+});
+
+describe('planner document', () => {
+  const profile = (patch: Partial<Profile> = {}): Profile => ({ id: 'p1', name: 'Ada', photo: null, accent: '#2563eb', bgColor: '#f8fafc', events: [event()], ...patch });
+  const doc = (patch: Partial<PlannerDoc> = {}): PlannerDoc => migrateDoc({ version: 0, title: 'Planner', profiles: [profile()], activeId: 'p1', settings: defaultSettings, categories: [], templates: [], caregivers: [], lock: null, kidMode: false, ...patch }, t);
+
+  test('migrates an old document to the current shape', () => {
+    const old = doc({ profiles: [profile({ events: [{ ...event({ category: 'Music' }), repeat: undefined }] })], settings: { firstHour: 8 } as PlannerDoc['settings'] });
+    expect(old.settings).toEqual({ ...defaultSettings, firstHour: 8 });
+    expect(old.categories.map(c => c.name)).toEqual(['Music']);
+    expect(old.profiles[0].events[0].repeat).toEqual({ days: ['Monday'], every: 1 });
+  });
+  test('refuses documents from a newer version', () => {
+    expect(() => migrateDoc({ ...doc(), version: 999 }, t)).toThrow('newer version');
+  });
+  test('a backup restores to the same document', () => {
+    const current = doc();
+    expect(parseBackup(toBackup(current), t)).toEqual(current);
+    expect(() => parseBackup('{"app": "other"}', t)).toThrow('This is not a planner backup');
+    expect(() => parseBackup('nope', t)).toThrow('The file is not valid JSON');
+  });
+  test('a backup with an unreadable event is refused', () => {
+    const backup = (events: unknown[]) => toBackup(doc({ profiles: [profile({ events: events as EventItem[] })] }));
+    const { start: _start, ...noStart } = event();
+    expect(() => parseBackup(backup([noStart]), t)).toThrow('"Piano" in Ada\'s planner cannot be restored: some of its fields are missing or damaged');
+    expect(() => parseBackup(backup([event({ start: '18:00' })]), t)).toThrow('End time must be after start time');
+    expect(() => parseBackup(backup([event({ tasks: 'homework' as unknown as EventItem['tasks'] })]), t)).toThrow('some of its fields are missing or damaged');
+    const broken = JSON.parse(toBackup(doc()));
+    broken.profiles[0].events = [null];
+    expect(() => parseBackup(JSON.stringify(broken), t)).toThrow('This is not a planner backup');
+  });
+  test('merging keeps current settings and adds the backup\'s children and events', () => {
+    const current = doc();
+    const backup = doc({ title: 'Other', profiles: [profile({ events: [event({ id: 'e2', title: 'Swim' })] }), profile({ id: 'p2', name: 'Bo', events: [event()] })] });
+    const merged = mergeDocs(current, backup);
+    expect(merged.title).toBe('Planner');
+    expect(merged.profiles[0].events.map(e => e.id)).toEqual(['e1', 'e2']);
+    // Bo's copy of e1 would clash with Ada's, so it gets a new id.
+    expect(merged.profiles[1].events[0].id).not.toBe('e1');
+  });
+  test('merging adds the backup\'s caregivers', () => {
+    const mom = { id: 'mom', name: 'Mom', color: '#ef4444' }, dad = { id: 'dad', name: 'Dad', color: '#2563eb' };
+    const merged = mergeDocs(doc({ caregivers: [mom] }), doc({ caregivers: [{ ...mom, name: 'Mum' }, dad] }));
+    expect(merged.caregivers.map(c => c.name)).toEqual(['Mum', 'Dad']);
+  });
+});
+
+describe('shared weeks', () => {
+  test('a week survives the link', () => {
+    const week = [occurrence({ title: 'Şarkı 🎵', date: '2025-09-10', day: 'Wednesday', notes: 'x' })];
+    const shared = weekFromText(`https://example.com/#week=${encodeWeek('Ada', MONDAY, week)}`, t)!;
+    expect(shared).toMatchObject({ name: 'Ada', weekStart: MONDAY, events: [{ title: 'Şarkı 🎵', date: '2025-09-10', day: 'Wednesday', start: '16:00', notes: 'x' }] });
+    expect(weekFromText('no link here', t)).toBeNull();
+  });
+  test('events ending at midnight survive the link', () => {
+    const shared = decodeWeek(encodeWeek('Ada', MONDAY, [occurrence({ start: '22:00', end: '24:00' })]), t);
+    expect(shared.events[0]).toMatchObject({ date: MONDAY, start: '22:00', end: '24:00' });
+  });
+  test('damaged links are reported', () => {
+    expect(() => decodeWeek('!!!', t)).toThrow('The link is damaged or incomplete');
+  });
+  test('links with events of the wrong shape are rejected', () => {
+    const link = (row: unknown) => Buffer.from(JSON.stringify({ v: 1, n: 'Ada', w: MONDAY, e: [row] })).toString('base64url');
+    expect(decodeWeek(link(['Swim', 0, '10:00', '11:00', 'Sport', '#ff0000', 'Towel']), t).events[0]).toMatchObject({ category: 'Sport', color: '#ff0000' });
+    for (const row of ['Swim', ['Swim', 0, '10:00', '11:00', 42], ['Swim', 0, '10:00', '11:00', '', 'red\r\nX-EVIL:1'], ['Swim', 0, '10:00', '11:00', '', '#ff0000', {}], ['Swim', 0, '11:00', '10:00']]) {
+      expect(() => decodeWeek(link(row), t)).toThrow('The link contains an event the planner cannot read');
+    }
+  });
+});
+
+describe('print', () => {
+  test('escapes text and lists events outside the grid', () => {
+    const html = printHTML({
+      title: '<Ada>',
+      weekStart: MONDAY,
+      events: [occurrence({ title: 'A & B' }), occurrence({ id: 'early', title: 'Early', start: '06:00', end: '06:30' })],
+      legend: [],
+      accent: 'red; background: url(x)',
+      bgColor: '#fff',
+      photo: null,
+      settings: defaultSettings,
+      stats: [],
+      warnings: ['Mom <late>'],
+      t,
+      locale: 'en-US',
+      clock: '24h',
+      rtl: false,
+    }, { paper: 'A4', orientation: 'landscape', photo: false, legend: false, stats: false });
+    expect(html).toContain('&lt;Ada&gt;');
+    expect(html).toContain('A &amp; B');
+    expect(html).toContain('Also: Mon 06:00–06:30 Early');
+    expect(html).toContain('⚠ Mom &lt;late&gt;');
+    expect(html).not.toContain('url(x)');
+  });
+});
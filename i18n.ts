@@ -0,0 +1,700 @@
+import type { Clock, Settings } from './plannerCore';
+
+// Day values in events stay English ('Monday'…); only their labels are translated. Day and month names
+// and the default clock come from Intl for the locale, so a language needs only its strings here.
+export type Language = 'en' | 'tr';
+export const LANGUAGES: Record<Language, { name: string; rtl: boolean }> = {
+  en: { name: 'English', rtl: false },
+  tr: { name: 'Türkçe', rtl: false },
+};
+
+const EN = {
+  appTitle: 'Kids Weekly Planner',
+  childN: 'Child {n}',
+  categoryN: 'Category {n}',
+  caregiverN: 'Caregiver {n}',
+  family: 'Family',
+  other: 'Other',
+  untitled: 'Untitled',
+  event: 'event',
+  // Common buttons
+  add: 'Add',
+  apply: 'Apply',
+  back: 'Back',
+  cancel: 'Cancel',
+  close: 'Close',
+  continue: 'Continue',
+  copy: 'Copy',
+  delete: 'Delete',
+  done: 'Done',
+  import: 'Import',
+  merge: 'Merge',
+  ok: 'OK',
+  replace: 'Replace',
+  retry: 'Retry',
+  save: 'Save',
+  tryAgain: 'Try again',
+  error: 'Error',
+  warning: 'Warning',
+  notSupported: 'Not supported',
+  // Durations
+  hoursMinutes: '{h}h {m}m',
+  hoursOnly: '{h}h',
+  minutesOnly: '{m}m',
+  // Loading and saving
+  loadingPlanner: 'Loading planner…',
+  loadFailed: 'The planner could not be opened',
+  notSaved: 'Not saved',
+  storageFull: 'Storage is full, so recent changes are not saved. A smaller profile photo usually frees enough space.',
+  saveFailed: 'Changes could not be saved ({detail}).',
+  newerVersion: 'This planner was saved by a newer version of the app',
+  // Header
+  editChild: 'Edit child',
+  addChild: '+ Child',
+  parentModeChip: '🔒 Parent mode',
+  kidMode: 'Kid mode',
+  tapToAddPhoto: 'Tap to add photo',
+  thisWeek: 'this week',
+  addEvent: 'Add Event',
+  undo: '↶ Undo',
+  redo: '↷ Redo',
+  exportCsv: 'Export CSV',
+  importCsv: 'Import CSV',
+  exportIcs: 'Export .ics',
+  importIcs: 'Import .ics',
+  printPdf: 'Print / PDF',
+  templates: 'Templates',
+  weekBalance: 'Week balance',
+  shareWeek: 'Share week',
+  backup: 'Backup',
+  restore: 'Restore',
+  gridSettings: 'Grid settings',
+  gridSummary: '{start} – {end} · {n} min rows',
+  accent: 'Accent',
+  background: 'Background',
+  // Week navigation and legend
+  prev: '‹ Prev',
+  today: 'Today',
+  next: 'Next ›',
+  weekView: 'Week view',
+  dayView: 'Day view',
+  categoriesMenu: 'Categories…',
+  caregiversMenu: 'Caregivers…',
+  nothingPlannedFor: 'Nothing planned for {name} yet.',
+  startFromTemplate: 'Start from a template',
+  // Day view
+  now: 'Now',
+  until: 'until {time}',
+  freeTime: 'Free time',
+  upNext: 'Next',
+  inDuration: 'in {duration}',
+  nothingElseToday: 'Nothing else today',
+  dayChecklistMenu: 'Day checklist…',
+  nothingPlannedDay: 'Nothing planned for this day.',
+  starsN: '{n} stars',
+  // Week grid
+  earlier: '▲ {n} earlier',
+  later: '▼ {n} later',
+  moreN: '+{n} more',
+  editLink: 'edit',
+  overlapsTag: 'overlaps',
+  moreEvents: 'More events',
+  dropOffBy: 'Drop-off: {name}',
+  pickUpBy: 'Pick-up: {name}',
+  // Event editor
+  editEvent: 'Edit Event',
+  change: 'Change',
+  onlyDate: 'Only {date}',
+  wholeSeries: 'Whole series',
+  title: 'Title',
+  titlePlaceholder: 'e.g., School, Football, Piano',
+  child: 'Child',
+  repeat: 'Repeat',
+  once: 'Once',
+  weekly: 'Weekly',
+  days: 'Days',
+  day: 'Day',
+  dayOn: 'Day ({date})',
+  everyWeeks: 'Every (weeks)',
+  fromDate: 'From (YYYY-MM-DD)',
+  untilDate: 'Until (optional)',
+  untilPlaceholder: 'End of term',
+  copyToOtherDays: 'Copy to other days',
+  category: 'Category',
+  none: 'None',
+  editMore: 'Edit…',
+  startTime: 'Start (HH:MM)',
+  endTime: 'End (HH:MM)',
+  color: 'Color',
+  dropOff: 'Drop-off',
+  pickUp: 'Pick-up',
+  checklist: 'Checklist',
+  checklistOn: 'Checklist ({date})',
+  taskPlaceholder: 'e.g., Pack gym bag',
+  starsForCompleting: 'Stars for completing',
+  notes: 'Notes',
+  notesPlaceholder: 'Snacks, what to bring, coach name…',
+  skipDate: 'Skip this date',
+  needTitle: 'Please add a title',
+  endAfterStart: 'End time must be after start time',
+  timesFormat: 'Times must be HH:MM',
+  needRepeatDay: 'Pick at least one day to repeat on',
+  repeatWholeWeeks: 'Repeat every must be a whole number of weeks',
+  repeatNeedsFrom: 'Repeating every few weeks needs a start date',
+  datesFormat: 'Dates must be YYYY-MM-DD',
+  seriesEndsAfterStart: 'The series must end after it starts',
+  overlapWarning: 'This overlaps another event on the same day.',
+  // Undo/redo labels
+  historyAdd: 'add "{title}"',
+  historyEdit: 'edit "{title}"',
+  historyDelete: 'delete "{title}"',
+  historyMove: 'move "{title}"',
+  historySkip: 'skip "{title}" on {date}',
+  historyCopy: 'copy "{title}"',
+  historyCopyN: 'copy {n} events',
+  historyClear: 'clear {date}',
+  historyApply: 'apply "{name}"',
+  historyCsv: 'CSV import',
+  historyIcs: 'calendar import',
+  historyShared: 'shared week import',
+  // Day checklist
+  dayChecklist: '{day} checklist · {date}',
+  dayTaskPlaceholder: 'e.g., Practice piano 15 min',
+  copyDayTo: "Copy this day's events to",
+  clearDay: 'Clear day',
+  clearDayConfirm: "Take everything off {name}'s {date}? Repeating events skip just that date.",
+  // Stars
+  starsOf: "{name}'s stars",
+  starsSummary: '★ {balance} to spend · {earned} earned this week',
+  rewards: 'Rewards',
+  reward: 'Reward',
+  redeem: 'Redeem',
+  rewardPlaceholder: 'e.g., 30 min tablet',
+  rewardIncomplete: 'Give the reward a name and a cost in stars',
+  notEnoughStars: 'Not enough stars',
+  notEnoughStarsText: '{reward} costs {cost} ★ and {name} has {balance} ★.',
+  redeemReward: 'Redeem reward',
+  redeemConfirm: 'Spend {cost} ★ on "{reward}"?',
+  history: 'History',
+  historyEmpty: 'Tick off tasks and events worth stars to start earning.',
+  // Print
+  paper: 'Paper',
+  orientation: 'Orientation',
+  portrait: 'Portrait',
+  landscape: 'Landscape',
+  includePhoto: 'Include photo',
+  includeLegend: 'Include legend',
+  includeStats: 'Include week balance',
+  print: 'Print',
+  printFailed: 'Could not print: {message}',
+  printAlso: 'Also:',
+  // Categories
+  categories: 'Categories',
+  categoriesEmpty: 'Categories give events a shared color and icon, and can be filtered on the grid.',
+  addCategory: '+ Category',
+  deleteCategory: 'Delete category',
+  deleteCategoryConfirm: 'Events in "{name}" keep their color but lose the category.',
+  // Caregivers
+  caregivers: 'Caregivers',
+  caregiversEmpty: 'Caregivers are who takes the children to events and collects them, e.g. Mom, Dad, Grandma or the carpool.',
+  addCaregiver: '+ Caregiver',
+  deleteCaregiver: 'Delete caregiver',
+  deleteCaregiverConfirm: 'Drop-offs and pick-ups by {name} become unassigned.',
+  travelMinutes: 'Travel time between places (min)',
+  handoverClash: "{name} can't {first} and {second}",
+  handoverDropOff: 'drop off {title} ({day} {time})',
+  handoverPickUp: 'pick up {title} ({day} {time})',
+  // Week balance
+  weekBalanceOf: 'Week balance · {range}',
+  balanceSummary: '{busy} planned · {free} free between {start} and {end}',
+  planned: 'Planned',
+  free: 'Free',
+  plannedAmount: '{time} planned',
+  freeAmount: '{time} free',
+  nothingPlanned: 'Nothing planned',
+  nothingPlannedWeek: 'Nothing planned this week.',
+  overloadedNote: 'Days with less than {time} free are flagged ⚠.',
+  // Templates
+  template: 'Template',
+  templateNeedsName: 'Give the template a name',
+  templateWeekEmpty: 'This week has no events to save',
+  applyTemplate: 'Apply "{name}"',
+  templateEventsFor: '{n} events for {name}',
+  thisWeekOnly: 'This week only',
+  everyWeekFrom: 'Every week from {date}',
+  templateHelpWeek: "Merge adds the template's events. Replace first clears this week.",
+  templateHelpOngoing: "Merge adds the template's events. Replace first clears this week and every week after it.",
+  replaceEvents: 'Replace events',
+  replaceEventsWeek: "Clear {name}'s events this week and apply the template?",
+  replaceEventsOngoing: "Clear {name}'s events from this week on and apply the template?",
+  eventsN: '{n} events',
+  starterTag: 'starter',
+  deleteTemplate: 'Delete template',
+  deleteTemplateConfirm: 'Delete "{name}"?',
+  saveWeekAsTemplate: "Save {name}'s week of {date} as a template",
+  templatePlaceholder: 'e.g., School term, Grandma week',
+  starterSchoolWeek: 'School week',
+  starterSummer: 'Summer holiday',
+  starterWeekend: 'Weekend',
+  starterSchool: 'School',
+  starterHomework: 'Homework',
+  starterReading: 'Reading',
+  starterDayCamp: 'Day camp',
+  starterSwimming: 'Swimming',
+  starterPark: 'Park',
+  starterFootball: 'Football',
+  starterFamilyTime: 'Family time',
+  starterRest: 'Rest',
+  starterPlay: 'Play',
+  starterSport: 'Sport',
+  // Grid settings
+  firstHour: 'First hour',
+  lastHour: 'Last hour',
+  rowSize: 'Row size',
+  minutesN: '{n} min',
+  weekStartsOn: 'Week starts on',
+  clock: 'Clock',
+  clockAuto: 'As the language',
+  layout: 'Layout',
+  layoutAuto: 'By screen size',
+  week: 'Week',
+  language: 'Language',
+  languageAuto: 'Device language',
+  // CSV
+  csvWebOnly: 'CSV export is available on web.',
+  csvFailed: 'Failed to import CSV: {message}',
+  csvUnterminated: 'Unterminated quoted field',
+  csvEmpty: 'The file is empty',
+  csvMissingColumn: 'Missing column: {columns}',
+  csvMissingColumns: 'Missing columns: {columns}',
+  csvColumnCount: 'has {n} columns, expected {expected}',
+  csvNoTitle: 'title is empty',
+  csvBadDay: '"{value}" is not a day of the week',
+  csvBadStart: 'start "{value}" is not HH:MM',
+  csvBadEnd: 'end "{value}" is not HH:MM',
+  csvEndBeforeStart: 'end must be after start',
+  csvBadColor: 'color "{value}" is not #RRGGBB',
+  csvBadDate: 'date "{value}" is not a {day} (YYYY-MM-DD)',
+  csvBadRepeatDays: 'repeat_days "{value}" must be day names separated by ";"',
+  csvBadRepeatEvery: 'repeat_every must be a whole number of weeks',
+  csvRepeatNeedsFrom: 'repeat_every above 1 needs repeat_from',
+  csvBadRepeatDates: 'repeat dates must be YYYY-MM-DD',
+  csvBadSkip: 'skip must be YYYY-MM-DD dates separated by ";"',
+  csvBadJson: 'tasks or changes are not valid JSON',
+  csvBadTasks: 'tasks must be a list of {id, text} with optional positive whole-number points',
+  csvBadChanges: 'changes must map YYYY-MM-DD dates to changes',
+  csvBadPoints: 'points must be a whole number',
+  csvDuplicateRow: 'duplicate of row {row}',
+  validRows: '{n} valid rows',
+  alreadyInPlanner: '{n} already in the planner (merge updates them)',
+  rejectedN: '{n} rejected',
+  rowN: 'Row {row}: {text}',
+  replaceAll: 'Replace all',
+  replaceAllConfirm: "Replace all of {name}'s events with the imported ones?",
+  thisChild: 'this child',
+  // iCalendar
+  icsWebOnly: 'Calendar export is available on web.',
+  icsFailed: 'Failed to import calendar: {message}',
+  icsCancelled: 'cancelled',
+  icsChangedOccurrence: 'changed occurrence of a series',
+  icsNoStart: 'all-day or missing start time',
+  icsNoEnd: 'missing end time',
+  icsMultiDay: 'spans more than one day',
+  icsOutsideGrid: '{from}–{to} is outside the {start}–{end} grid',
+  icsNotWeekly: 'repeat rule is not a simple weekly one',
+  importedN: 'Imported {n} events',
+  skippedN: "Skipped {n} that don't fit the planner:",
+  // Kid mode
+  parentPin: 'Parent PIN',
+  parentMode: 'Parent mode',
+  pinDigits: 'Use 4 to 8 digits.',
+  pinMismatch: 'The two PINs do not match.',
+  pinWrong: 'That PIN is not right.',
+  backToParentMode: 'Back to parent mode',
+  kidModeHelp: 'Kids can see the week and tick off their tasks, but nothing can be edited, deleted or imported until the parent PIN is entered.',
+  newPin: 'New PIN (4–8 digits)',
+  repeatPin: 'Repeat the PIN',
+  changePin: 'Change PIN',
+  unlock: 'Unlock',
+  startKidMode: 'Start kid mode',
+  // Backup and sharing
+  backupShareTitle: 'Planner backup',
+  notJson: 'The file is not valid JSON',
+  notBackup: 'This is not a planner backup',
+  backupBadEvent: '"{title}" in {name}\'s planner cannot be restored: {problem}',
+  eventDamaged: 'some of its fields are missing or damaged',
+  chooseBackupFile: 'Choose backup file…',
+  pasteBackup: 'Paste a backup or a shared week link',
+  orPasteBackup: 'Or paste a backup or a shared week link',
+  restoreTitle: 'Restore "{title}"',
+  backupProfile: '• {name}: {n} events, {stars} ★',
+  alreadyHere: '(already here)',
+  backupHelp: 'Merge adds these to the planner and updates what is already here. Replace swaps the whole planner, settings included, for the backup.',
+  replacePlanner: 'Replace planner',
+  replacePlannerConfirm: 'Replace everything in this planner with the backup?',
+  sharedWeek: 'Shared week',
+  shareMessage: '{name}: week of {date}',
+  linkCopied: 'Link copied',
+  linkCopiedText: 'Send it to the other parent; opening it offers to import this week.',
+  linkDamaged: 'The link is damaged or incomplete',
+  linkNoWeek: 'The link does not contain a planner week',
+  linkBadEvent: 'The link contains an event the planner cannot read',
+  sharedWeekOf: "{name}'s week of {date}",
+  sharedWeekOfUnnamed: 'Shared week of {date}',
+  weekEmpty: 'The week is empty.',
+  addTo: 'Add to',
+  // Profiles
+  photoWebOnly: 'Photo upload is available on web.',
+  childProfile: 'Child profile',
+  name: 'Name',
+  namePlaceholder: 'e.g., Ada',
+  deleteProfile: 'Delete profile',
+  deleteProfileConfirm: 'Delete {name} and all their events?',
+};
+export type StringKey = keyof typeof EN;
+export type Translate = (key: StringKey, params?: Record<string, string | number>) => string;
+
+const TR: Record<StringKey, string> = {
+  appTitle: 'Çocuk Haftalık Planlayıcı',
+  childN: 'Çocuk {n}',
+  categoryN: 'Kategori {n}',
+  caregiverN: 'Kişi {n}',
+  family: 'Aile',
+  other: 'Diğer',
+  untitled: 'Adsız',
+  event: 'etkinlik',
+  add: 'Ekle',
+  apply: 'Uygula',
+  back: 'Geri',
+  cancel: 'Vazgeç',
+  close: 'Kapat',
+  continue: 'Devam',
+  copy: 'Kopyala',
+  delete: 'Sil',
+  done: 'Tamam',
+  import: 'İçe aktar',
+  merge: 'Birleştir',
+  ok: 'Tamam',
+  replace: 'Değiştir',
+  retry: 'Yeniden dene',
+  save: 'Kaydet',
+  tryAgain: 'Yeniden dene',
+  error: 'Hata',
+  warning: 'Uyarı',
+  notSupported: 'Desteklenmiyor',
+  hoursMinutes: '{h} sa {m} dk',
+  hoursOnly: '{h} sa',
+  minutesOnly: '{m} dk',
+  loadingPlanner: 'Planlayıcı yükleniyor…',
+  loadFailed: 'Planlayıcı açılamadı',
+  notSaved: 'Kaydedilmedi',
+  storageFull: 'Depolama alanı dolu, bu yüzden son değişiklikler kaydedilmedi. Daha küçük bir profil fotoğrafı genellikle yeterli yer açar.',
+  saveFailed: 'Değişiklikler kaydedilemedi ({detail}).',
+  newerVersion: 'Bu planlayıcı uygulamanın daha yeni bir sürümüyle kaydedilmiş',
+  editChild: 'Çocuğu düzenle',
+  addChild: '+ Çocuk',
+  parentModeChip: '🔒 Ebeveyn modu',
+  kidMode: 'Çocuk modu',
+  tapToAddPhoto: 'Fotoğraf eklemek için dokun',
+  thisWeek: 'bu hafta',
+  addEvent: 'Etkinlik ekle',
+  undo: '↶ Geri al',
+  redo: '↷ Yinele',
+  exportCsv: 'CSV dışa aktar',
+  importCsv: 'CSV içe aktar',
+  exportIcs: '.ics dışa aktar',
+  importIcs: '.ics içe aktar',
+  printPdf: 'Yazdır / PDF',
+  templates: 'Şablonlar',
+  weekBalance: 'Hafta dengesi',
+  shareWeek: 'Haftayı paylaş',
+  backup: 'Yedekle',
+  restore: 'Geri yükle',
+  gridSettings: 'Tablo ayarları',
+  gridSummary: '{start} – {end} · {n} dk satırlar',
+  accent: 'Vurgu rengi',
+  background: 'Arka plan',
+  prev: '‹ Önceki',
+  today: 'Bugün',
+  next: 'Sonraki ›',
+  weekView: 'Hafta görünümü',
+  dayView: 'Gün görünümü',
+  categoriesMenu: 'Kategoriler…',
+  caregiversMenu: 'Bırakıp alanlar…',
+  nothingPlannedFor: '{name} için henüz bir plan yok.',
+  startFromTemplate: 'Bir şablonla başla',
+  now: 'Şimdi',
+  until: '{time} saatine kadar',
+  freeTime: 'Serbest zaman',
+  upNext: 'Sıradaki',
+  inDuration: '{duration} sonra',
+  nothingElseToday: 'Bugün başka bir şey yok',
+  dayChecklistMenu: 'Günün listesi…',
+  nothingPlannedDay: 'Bu gün için plan yok.',
+  starsN: '{n} yıldız',
+  earlier: '▲ {n} daha erken',
+  later: '▼ {n} daha geç',
+  moreN: '+{n} daha',
+  editLink: 'düzenle',
+  overlapsTag: 'çakışıyor',
+  moreEvents: 'Diğer etkinlikler',
+  dropOffBy: 'Bırakan: {name}',
+  pickUpBy: 'Alan: {name}',
+  editEvent: 'Etkinliği düzenle',
+  change: 'Değiştir',
+  onlyDate: 'Yalnızca {date}',
+  wholeSeries: 'Tüm seri',
+  title: 'Başlık',
+  titlePlaceholder: 'ör. Okul, Futbol, Piyano',
+  child: 'Çocuk',
+  repeat: 'Tekrar',
+  once: 'Bir kez',
+  weekly: 'Haftalık',
+  days: 'Günler',
+  day: 'Gün',
+  dayOn: 'Gün ({date})',
+  everyWeeks: 'Her (hafta)',
+  fromDate: 'Başlangıç (YYYY-AA-GG)',
+  untilDate: 'Bitiş (isteğe bağlı)',
+  untilPlaceholder: 'Dönem sonu',
+  copyToOtherDays: 'Diğer günlere kopyala',
+  category: 'Kategori',
+  none: 'Yok',
+  editMore: 'Düzenle…',
+  startTime: 'Başlangıç (SS:DD)',
+  endTime: 'Bitiş (SS:DD)',
+  color: 'Renk',
+  dropOff: 'Bırakan',
+  pickUp: 'Alan',
+  checklist: 'Yapılacaklar',
+  checklistOn: 'Yapılacaklar ({date})',
+  taskPlaceholder: 'ör. Spor çantasını hazırla',
+  starsForCompleting: 'Tamamlayınca kazanılan yıldız',
+  notes: 'Notlar',
+  notesPlaceholder: 'Atıştırmalık, götürülecekler, antrenörün adı…',
+  skipDate: 'Bu tarihi atla',
+  needTitle: 'Lütfen bir başlık ekle',
+  endAfterStart: 'Bitiş saati başlangıçtan sonra olmalı',
+  timesFormat: 'Saatler SS:DD biçiminde olmalı',
+  needRepeatDay: 'Tekrar için en az bir gün seç',
+  repeatWholeWeeks: 'Tekrar aralığı tam sayı hafta olmalı',
+  repeatNeedsFrom: 'Birkaç haftada bir tekrar için başlangıç tarihi gerekir',
+  datesFormat: 'Tarihler YYYY-AA-GG biçiminde olmalı',
+  seriesEndsAfterStart: 'Seri başladıktan sonra bitmeli',
+  overlapWarning: 'Bu, aynı gündeki başka bir etkinlikle çakışıyor.',
+  historyAdd: '"{title}" ekle',
+  historyEdit: '"{title}" düzenle',
+  historyDelete: '"{title}" sil',
+  historyMove: '"{title}" taşı',
+  historySkip: '{date} tarihinde "{title}" atla',
+  historyCopy: '"{title}" kopyala',
+  historyCopyN: '{n} etkinliği kopyala',
+  historyClear: '{date} temizle',
+  historyApply: '"{name}" uygula',
+  historyCsv: 'CSV içe aktarma',
+  historyIcs: 'takvim içe aktarma',
+  historyShared: 'paylaşılan hafta içe aktarma',
+  dayChecklist: '{day} listesi · {date}',
+  dayTaskPlaceholder: 'ör. 15 dk piyano çalış',
+  copyDayTo: 'Bu günün etkinliklerini kopyala:',
+  clearDay: 'Günü temizle',
+  clearDayConfirm: '{name} için {date} tarihindeki her şey kaldırılsın mı? Tekrarlanan etkinlikler yalnızca o tarihi atlar.',
+  starsOf: '{name} – yıldızlar',
+  starsSummary: '★ {balance} harcanabilir · bu hafta {earned} kazanıldı',
+  rewards: 'Ödüller',
+  reward: 'Ödül',
+  redeem: 'Kullan',
+  rewardPlaceholder: 'ör. 30 dk tablet',
+  rewardIncomplete: 'Ödüle bir ad ve yıldız cinsinden bir bedel ver',
+  notEnoughStars: 'Yeterli yıldız yok',
+  notEnoughStarsText: '{reward} {cost} ★ tutuyor, {name} için {balance} ★ var.',
+  redeemReward: 'Ödülü kullan',
+  redeemConfirm: '"{reward}" için {cost} ★ harcansın mı?',
+  history: 'Geçmiş',
+  historyEmpty: 'Yıldız kazanmak için yıldızlı görev ve etkinlikleri işaretle.',
+  paper: 'Kağıt',
+  orientation: 'Yön',
+  portrait: 'Dikey',
+  landscape: 'Yatay',
+  includePhoto: 'Fotoğrafı ekle',
+  includeLegend: 'Açıklamayı ekle',
+  includeStats: 'Hafta dengesini ekle',
+  print: 'Yazdır',
+  printFailed: 'Yazdırılamadı: {message}',
+  printAlso: 'Ayrıca:',
+  categories: 'Kategoriler',
+  categoriesEmpty: 'Kategoriler etkinliklere ortak bir renk ve simge verir ve tabloda filtrelenebilir.',
+  addCategory: '+ Kategori',
+  deleteCategory: 'Kategoriyi sil',
+  deleteCategoryConfirm: '"{name}" içindeki etkinlikler rengini korur ama kategorisini kaybeder.',
+  caregivers: 'Bırakıp alanlar',
+  caregiversEmpty: 'Çocukları etkinliklere bırakan ve oradan alan kişiler, ör. Anne, Baba, Babaanne ya da servis.',
+  addCaregiver: '+ Kişi',
+  deleteCaregiver: 'Kişiyi sil',
+  deleteCaregiverConfirm: '{name} kişisinin bırakma ve alma görevleri boşta kalır.',
+  travelMinutes: 'Yerler arası yol süresi (dk)',
+  handoverClash: '{name} ikisine birden yetişemez: {first} ve {second}',
+  handoverDropOff: '{title} bırakma ({day} {time})',
+  handoverPickUp: '{title} alma ({day} {time})',
+  weekBalanceOf: 'Hafta dengesi · {range}',
+  balanceSummary: '{busy} planlı · {start} ile {end} arasında {free} boş',
+  planned: 'Planlı',
+  free: 'Boş',
+  plannedAmount: '{time} planlı',
+  freeAmount: '{time} boş',
+  nothingPlanned: 'Plan yok',
+  nothingPlannedWeek: 'Bu hafta plan yok.',
+  overloadedNote: '{time} altında boş zamanı olan günler ⚠ ile işaretlenir.',
+  template: 'Şablon',
+  templateNeedsName: 'Şablona bir ad ver',
+  templateWeekEmpty: 'Bu haftada kaydedilecek etkinlik yok',
+  applyTemplate: '"{name}" uygula',
+  templateEventsFor: '{name} için {n} etkinlik',
+  thisWeekOnly: 'Yalnızca bu hafta',
+  everyWeekFrom: '{date} itibarıyla her hafta',
+  templateHelpWeek: 'Birleştir, şablonun etkinliklerini ekler. Değiştir, önce bu haftayı temizler.',
+  templateHelpOngoing: 'Birleştir, şablonun etkinliklerini ekler. Değiştir, önce bu haftayı ve sonraki tüm haftaları temizler.',
+  replaceEvents: 'Etkinlikleri değiştir',
+  replaceEventsWeek: '{name} için bu haftanın etkinlikleri temizlenip şablon uygulansın mı?',
+  replaceEventsOngoing: '{name} için bu haftadan itibaren etkinlikler temizlenip şablon uygulansın mı?',
+  eventsN: '{n} etkinlik',
+  starterTag: 'hazır',
+  deleteTemplate: 'Şablonu sil',
+  deleteTemplateConfirm: '"{name}" silinsin mi?',
+  saveWeekAsTemplate: '{name} için {date} haftasını şablon olarak kaydet',
+  templatePlaceholder: 'ör. Okul dönemi, Büyükanne haftası',
+  starterSchoolWeek: 'Okul haftası',
+  starterSummer: 'Yaz tatili',
+  starterWeekend: 'Hafta sonu',
+  starterSchool: 'Okul',
+  starterHomework: 'Ödev',
+  starterReading: 'Okuma',
+  starterDayCamp: 'Gündüz kampı',
+  starterSwimming: 'Yüzme',
+  starterPark: 'Park',
+  starterFootball: 'Futbol',
+  starterFamilyTime: 'Aile zamanı',
+  starterRest: 'Dinlenme',
+  starterPlay: 'Oyun',
+  starterSport: 'Spor',
+  firstHour: 'İlk saat',
+  lastHour: 'Son saat',
+  rowSize: 'Satır süresi',
+  minutesN: '{n} dk',
+  weekStartsOn: 'Hafta başlangıcı',
+  clock: 'Saat',
+  clockAuto: 'Dile göre',
+  layout: 'Düzen',
+  layoutAuto: 'Ekran boyutuna göre',
+  week: 'Hafta',
+  language: 'Dil',
+  languageAuto: 'Cihaz dili',
+  csvWebOnly: 'CSV dışa aktarma web sürümünde kullanılabilir.',
+  csvFailed: 'CSV içe aktarılamadı: {message}',
+  csvUnterminated: 'Kapatılmamış tırnaklı alan',
+  csvEmpty: 'Dosya boş',
+  csvMissingColumn: 'Eksik sütun: {columns}',
+  csvMissingColumns: 'Eksik sütunlar: {columns}',
+  csvColumnCount: '{n} sütun var, {expected} bekleniyordu',
+  csvNoTitle: 'başlık boş',
+  csvBadDay: '"{value}" bir haftanın günü değil',
+  csvBadStart: 'başlangıç "{value}" SS:DD biçiminde değil',
+  csvBadEnd: 'bitiş "{value}" SS:DD biçiminde değil',
+  csvEndBeforeStart: 'bitiş başlangıçtan sonra olmalı',
+  csvBadColor: 'renk "{value}" #RRGGBB biçiminde değil',
+  csvBadDate: 'tarih "{value}" bir {day} değil (YYYY-AA-GG)',
+  csvBadRepeatDays: 'repeat_days "{value}" ";" ile ayrılmış gün adları olmalı',
+  csvBadRepeatEvery: 'repeat_every tam sayı hafta olmalı',
+  csvRepeatNeedsFrom: 'repeat_every 1\'den büyükse repeat_from gerekir',
+  csvBadRepeatDates: 'tekrar tarihleri YYYY-AA-GG biçiminde olmalı',
+  csvBadSkip: 'skip ";" ile ayrılmış YYYY-AA-GG tarihleri olmalı',
+  csvBadJson: 'tasks veya changes geçerli JSON değil',
+  csvBadTasks: 'tasks, isteğe bağlı pozitif tam sayı puanlı {id, text} listesi olmalı',
+  csvBadChanges: 'changes, YYYY-AA-GG tarihlerini değişikliklere eşlemeli',
+  csvBadPoints: 'points tam sayı olmalı',
+  csvDuplicateRow: '{row}. satırın tekrarı',
+  validRows: '{n} geçerli satır',
+  alreadyInPlanner: '{n} tanesi planlayıcıda zaten var (birleştirme onları günceller)',
+  rejectedN: '{n} reddedildi',
+  rowN: 'Satır {row}: {text}',
+  replaceAll: 'Tümünü değiştir',
+  replaceAllConfirm: '{name} için tüm etkinlikler içe aktarılanlarla değiştirilsin mi?',
+  thisChild: 'bu çocuk',
+  icsWebOnly: 'Takvim dışa aktarma web sürümünde kullanılabilir.',
+  icsFailed: 'Takvim içe aktarılamadı: {message}',
+  icsCancelled: 'iptal edilmiş',
+  icsChangedOccurrence: 'serinin değiştirilmiş bir tekrarı',
+  icsNoStart: 'tüm gün veya başlangıç saati eksik',
+  icsNoEnd: 'bitiş saati eksik',
+  icsMultiDay: 'birden fazla güne yayılıyor',
+  icsOutsideGrid: '{from}–{to}, {start}–{end} tablosunun dışında',
+  icsNotWeekly: 'tekrar kuralı basit bir haftalık kural değil',
+  importedN: '{n} etkinlik içe aktarıldı',
+  skippedN: 'Planlayıcıya uymayan {n} etkinlik atlandı:',
+  parentPin: 'Ebeveyn PIN kodu',
+  parentMode: 'Ebeveyn modu',
+  pinDigits: '4 ila 8 rakam kullan.',
+  pinMismatch: 'İki PIN kodu eşleşmiyor.',
+  pinWrong: 'PIN kodu yanlış.',
+  backToParentMode: 'Ebeveyn moduna dön',
+  kidModeHelp: 'Çocuklar haftayı görebilir ve görevlerini işaretleyebilir, ancak ebeveyn PIN kodu girilene kadar hiçbir şey düzenlenemez, silinemez veya içe aktarılamaz.',
+  newPin: 'Yeni PIN (4–8 rakam)',
+  repeatPin: 'PIN kodunu tekrarla',
+  changePin: 'PIN kodunu değiştir',
+  unlock: 'Kilidi aç',
+  startKidMode: 'Çocuk modunu başlat',
+  backupShareTitle: 'Planlayıcı yedeği',
+  notJson: 'Dosya geçerli bir JSON değil',
+  notBackup: 'Bu bir planlayıcı yedeği değil',
+  backupBadEvent: '{name} planındaki "{title}" geri yüklenemiyor: {problem}',
+  eventDamaged: 'bazı alanları eksik ya da bozuk',
+  chooseBackupFile: 'Yedek dosyası seç…',
+  pasteBackup: 'Bir yedek veya paylaşılan hafta bağlantısı yapıştır',
+  orPasteBackup: 'Ya da bir yedek veya paylaşılan hafta bağlantısı yapıştır',
+  restoreTitle: '"{title}" geri yükle',
+  backupProfile: '• {name}: {n} etkinlik, {stars} ★',
+  alreadyHere: '(zaten burada)',
+  backupHelp: 'Birleştir, bunları planlayıcıya ekler ve burada olanları günceller. Değiştir, ayarlar dahil tüm planlayıcıyı yedekle değiştirir.',
+  replacePlanner: 'Planlayıcıyı değiştir',
+  replacePlannerConfirm: 'Bu planlayıcıdaki her şey yedekle değiştirilsin mi?',
+  sharedWeek: 'Paylaşılan hafta',
+  shareMessage: '{name}: {date} haftası',
+  linkCopied: 'Bağlantı kopyalandı',
+  linkCopiedText: 'Diğer ebeveyne gönder; bağlantıyı açınca bu haftayı içe aktarmayı önerir.',
+  linkDamaged: 'Bağlantı bozuk veya eksik',
+  linkNoWeek: 'Bağlantıda bir planlayıcı haftası yok',
+  linkBadEvent: 'Bağlantıda planlayıcının okuyamadığı bir etkinlik var',
+  sharedWeekOf: '{name} – {date} haftası',
+  sharedWeekOfUnnamed: 'Paylaşılan hafta – {date}',
+  weekEmpty: 'Hafta boş.',
+  addTo: 'Şuraya ekle',
+  photoWebOnly: 'Fotoğraf yükleme web sürümünde kullanılabilir.',
+  childProfile: 'Çocuk profili',
+  name: 'Ad',
+  namePlaceholder: 'ör. Ada',
+  deleteProfile: 'Profili sil',
+  deleteProfileConfirm: '{name} ve tüm etkinlikleri silinsin mi?',
+};
+export const STRINGS: Record<Language, Record<StringKey, string>> = { en: EN, tr: TR };
+
+export function translator(language: Language): Translate {
+  return (key, params) => STRINGS[language][key].replace(/\{(\w+)\}/g, (match, name) => (params && name in params ? String(params[name]) : match));
+}
+export function deviceLocale() {
+  return Intl.DateTimeFormat().resolvedOptions().locale;
+}
+// 'auto' picks the device's language when there are strings for it, and English otherwise.
+export function languageFor(choice: Settings['language']): Language {
+  if (choice !== 'auto') return choice;
+  const code = deviceLocale().split('-')[0];
+  return code in LANGUAGES ? code as Language : 'en';
+}
+// The device's region is kept when it speaks the chosen language, e.g. en-GB and en-US clocks differ.
+export function localeFor(language: Language) {
+  const device = deviceLocale();
+  return device.split('-')[0] === language ? device : language;
+}
+export function clockFor(clock: Settings['clock'], locale: string): Clock {
+  if (clock !== 'auto') return clock;
+  return new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions().hour12 ? '12h' : '24h';
+}
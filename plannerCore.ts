@@ -0,0 +1,1222 @@
+// The planner's data model and everything that works on it without React: dates and repeats, layout,
+// statistics, print HTML, CSV and iCalendar, the stored document and its backups.
+import type { Language, Translate } from './i18n';
+
+export type Day = 'Monday'|'Tuesday'|'Wednesday'|'Thursday'|'Friday'|'Saturday'|'Sunday';
+export const DAYS: Day[] = ['Monday','Tuesday','Wednesday','Thursday','Friday','Saturday','Sunday'];
+
+export type Task = { id: string; text: string; points?: number }; // stars for ticking it off
+
+export type Repeat = {
+  days: Day[];
+  every: number;  // weeks between repeats
+  from?: string;  // "YYYY-MM-DD", first date of the series
+  until?: string; // "YYYY-MM-DD", last date, e.g. the end of a school term
+};
+export type OccurrenceChange = Partial<Pick<EventItem, 'title'|'start'|'end'|'category'|'color'|'notes'|'dropOff'|'pickUp'>>;
+
+export type EventItem = {
+  id: string;
+  title: string;
+  day: Day;
+  start: string; // "HH:MM"
+  end: string;   // "HH:MM"
+  category: string;
+  color: string;
+  notes?: string;
+  date?: string;    // "YYYY-MM-DD" for one-off events
+  repeat?: Repeat;  // weekly series; `day` is then the first of `repeat.days`
+  skip?: string[];  // skipped dates of a series
+  changes?: Record<string, OccurrenceChange>; // per-date edits of a series
+  tasks?: Task[];
+  points?: number;  // stars for completing it
+  dropOff?: string; // caregiver id taking the child there; '' is nobody
+  pickUp?: string;  // caregiver id collecting the child afterwards; '' is nobody
+};
+export type Occurrence = EventItem & { date: string };
+
+export type Settings = {
+  firstHour: number; // first hour row shown
+  lastHour: number;  // last hour row shown, so the grid ends at lastHour + 1
+  slotMinutes: 15 | 30 | 60;
+  weekStartsOn: 'Monday' | 'Sunday';
+  clock: 'auto' | Clock;           // 'auto' follows the language's usual clock
+  layout: 'auto' | 'week' | 'day'; // 'auto' shows one day at a time on narrow screens
+  language: 'auto' | Language;     // 'auto' follows the device
+  travelMinutes: number;           // time a caregiver needs between handovers in different places
+};
+export type Clock = '12h' | '24h';
+export const defaultSettings: Settings = { firstHour: 7, lastHour: 21, slotMinutes: 60, weekStartsOn: 'Monday', clock: 'auto', layout: 'auto', language: 'auto', travelMinutes: 15 };
+
+export type Profile = {
+  id: string;
+  name: string;
+  photo: string | null;
+  accent: string;
+  bgColor: string;
+  events: EventItem[];
+  dayTasks?: Partial<Record<Day, Task[]>>; // checklist repeated on that weekday
+  done?: Record<string, string[]>;         // "YYYY-MM-DD" -> ids of tasks and events ticked off that date
+  rewards?: Reward[];
+  ledger?: LedgerEntry[];
+};
+export type Category = { id: string; name: string; color: string; icon: string };
+export type Caregiver = { id: string; name: string; color: string }; // who drops off and picks up, e.g. Mom or the carpool
+export type Reward = { id: string; title: string; cost: number };
+export type PinLock = { salt: string; hash: string };
+// Stars earned (points > 0, `ref` is "date:taskId") and spent on rewards (points < 0).
+export type LedgerEntry = { id: string; date: string; points: number; label: string; ref?: string };
+export const FAMILY = 'family';
+
+export const defaultAccent = '#2563eb';
+export const defaultBg = '#f8fafc';
+export const ACCENTS = ['#2563eb','#ef4444','#22c55e','#06b6d4','#f59e0b','#8b5cf6','#14b8a6','#e11d48'];
+export const BACKGROUNDS = ['#f8fafc','#fef2f2','#f0fdf4','#f0f9ff','#fffbeb','#faf5ff','#f0fdfa','#fef7f7'];
+
+export function toMinutes(time: string) {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+export function fromMinutes(mins: number) {
+  return `${String(Math.floor(mins / 60)).padStart(2,'0')}:${String(mins % 60).padStart(2,'0')}`;
+}
+export function overlaps(a: Slot, b: Slot) {
+  if (a.day !== b.day) return false;
+  return Math.max(toMinutes(a.start), toMinutes(b.start)) < Math.min(toMinutes(a.end), toMinutes(b.end));
+}
+// Building a formatter is slow and the grid formats times on every render, so keep one per locale.
+const timeFormats = new Map<string, Intl.DateTimeFormat>();
+// The locale decides how a 12-hour time reads, e.g. "5:45 PM" or "ÖS 5:45"; 24:00 shows as midnight.
+export function formatTime(time: string, clock: Clock, locale: string) {
+  if (clock === '24h') return time;
+  const [h, m] = time.split(':').map(Number);
+  let format = timeFormats.get(locale);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', hourCycle: 'h12' });
+    timeFormats.set(locale, format);
+  }
+  return format.format(new Date(2024, 0, 1, h, m));
+}
+export function gridRange(settings: Settings) {
+  return { start: settings.firstHour * 60, end: (settings.lastHour + 1) * 60 };
+}
+export function slotTimes(settings: Settings) {
+  const { start, end } = gridRange(settings);
+  return Array.from({ length: (end - start) / settings.slotMinutes }, (_, i) => start + i * settings.slotMinutes);
+}
+export function weekDaysFor(settings: Settings): Day[] {
+  return settings.weekStartsOn === 'Sunday' ? ['Sunday', ...DAYS.slice(0, 6)] : DAYS;
+}
+export function toISODate(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`;
+}
+function parseISODate(s: string) {
+  const [y, m, d] = s.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+export function isISODate(s: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s) && toISODate(parseISODate(s)) === s;
+}
+export function addDays(date: string, n: number) {
+  const d = parseISODate(date);
+  return toISODate(new Date(d.getFullYear(), d.getMonth(), d.getDate() + n));
+}
+export function daysBetween(a: string, b: string) {
+  const [ya, ma, da] = a.split('-').map(Number);
+  const [yb, mb, db] = b.split('-').map(Number);
+  return Math.round((Date.UTC(yb, mb - 1, db) - Date.UTC(ya, ma - 1, da)) / 86400000);
+}
+export function startOfWeek(date: string, weekStartsOn: Settings['weekStartsOn'] = 'Monday') {
+  const first = weekStartsOn === 'Sunday' ? 0 : 1;
+  return addDays(date, -((parseISODate(date).getDay() - first + 7) % 7));
+}
+export function dayOf(date: string): Day {
+  return DAYS[(parseISODate(date).getDay() + 6) % 7];
+}
+export function formatDate(date: string, locale?: string, withYear = false) {
+  return parseISODate(date).toLocaleDateString(locale, { day: 'numeric', month: 'short', ...(withYear ? { year: 'numeric' } : {}) });
+}
+export function dayName(day: Day, locale: string, width: 'long' | 'short' = 'long') {
+  return new Date(2024, 0, 1 + DAYS.indexOf(day)).toLocaleDateString(locale, { weekday: width }); // 1 Jan 2024 was a Monday
+}
+
+export function occursOn(e: EventItem, date: string) {
+  if (e.skip?.includes(date)) return false;
+  const r = e.repeat;
+  if (!r) return e.date ? e.date === date : e.day === dayOf(date);
+  if (!r.days.includes(dayOf(date))) return false;
+  if (r.from && date < r.from) return false;
+  if (r.until && date > r.until) return false;
+  if (r.every > 1 && r.from) {
+    const weeks = daysBetween(startOfWeek(r.from), startOfWeek(date)) / 7;
+    return weeks % r.every === 0;
+  }
+  return true;
+}
+export function occurrencesInWeek(e: EventItem, weekStart: string): Occurrence[] {
+  return DAYS.map((_, i) => addDays(weekStart, i))
+    .filter(date => occursOn(e, date))
+    .map(date => ({ ...e, ...e.changes?.[date], day: dayOf(date), date }));
+}
+// Events from before dated weeks had only a day name; they keep showing every week.
+function upgradeEvent(e: EventItem): EventItem {
+  if (e.repeat || e.date) return e;
+  const { date, ...rest } = e;
+  return { ...rest, repeat: { days: [e.day], every: 1 } };
+}
+// What keeps an event from being saved, or null; an end of 24:00 is midnight.
+export function validateEvent(e: EventItem, t: Translate) {
+  if (!e.title.trim()) return t('needTitle');
+  if (!HHMM.test(e.start) || !(HHMM.test(e.end) || e.end === '24:00')) return t('timesFormat');
+  if (e.start >= e.end) return t('endAfterStart');
+  const r = e.repeat;
+  if (r) {
+    if (!r.days.length) return t('needRepeatDay');
+    if (!Number.isInteger(r.every) || r.every < 1) return t('repeatWholeWeeks');
+    if (r.every > 1 && !r.from) return t('repeatNeedsFrom'); // the weeks are counted from it
+    if ((r.from && !isISODate(r.from)) || (r.until && !isISODate(r.until))) return t('datesFormat');
+    if (r.from && r.until && r.until < r.from) return t('seriesEndsAfterStart');
+  }
+  return null;
+}
+// Occurrences by day in the order of `weekDays`, then by start and end time.
+export function sortOccurrences<T extends Occurrence>(items: T[], weekDays: Day[]) {
+  return [...items].sort((a, b) => weekDays.indexOf(a.day) - weekDays.indexOf(b.day) || toMinutes(a.start) - toMinutes(b.start) || toMinutes(a.end) - toMinutes(b.end));
+}
+
+// --- Categories ---
+
+export const CATEGORY_ICONS = ['🏷️','📚','⚽','🎨','🎵','🏊','🧩','🍎','🛏️','🚌','🧹','🎮'];
+
+function categoryKey(name: string) {
+  return name.trim().toLowerCase();
+}
+// "Sport" and "sport " are the same category; an empty name is no category.
+export function findCategory(categories: Category[], name: string | undefined) {
+  return name?.trim() ? categories.find(c => categoryKey(c.name) === categoryKey(name)) : undefined;
+}
+// Registers every category name the registry does not know yet (the first event's color wins)
+// and spells each event's category the way the registry does.
+export function withCategories(categories: Category[], events: EventItem[]) {
+  const next = [...categories];
+  const named = events.map(e => {
+    if (!e.category?.trim()) return e;
+    let category = findCategory(next, e.category);
+    if (!category) {
+      category = { id: crypto.randomUUID(), name: e.category.trim(), color: e.color, icon: CATEGORY_ICONS[0] };
+      next.push(category);
+    }
+    return category.name === e.category ? e : { ...e, category: category.name };
+  });
+  return { categories: next, events: named };
+}
+// Renames a category on an event and on its per-date changes; renaming to '' removes it.
+export function renameCategoryIn(e: EventItem, from: string, to: string): EventItem {
+  const rename = (name: string) => (categoryKey(name) === categoryKey(from) ? to : name);
+  const changes = e.changes && Object.fromEntries(Object.entries(e.changes).map(([date, c]) => [date, c.category === undefined ? c : { ...c, category: rename(c.category) }]));
+  return { ...e, category: rename(e.category), ...(changes ? { changes } : {}) };
+}
+
+// --- Templates and copying ---
+
+// A template is a week of events by weekday, without dates; applying it places them in a given week.
+export type TemplateEvent = Pick<EventItem, 'title'|'day'|'start'|'end'|'category'|'color'|'notes'|'tasks'|'points'>;
+export type Template = { id: string; name: string; events: TemplateEvent[] };
+
+const starter = (title: string, days: Day[], start: string, end: string, category: string, color: string): TemplateEvent[] =>
+  days.map(day => ({ title, day, start, end, category, color }));
+const WEEKDAYS = DAYS.slice(0, 5);
+// Starters are written in the planner's language, so applying one adds translated titles and categories.
+export function starterTemplates(t: Translate): Template[] {
+  const school = t('starterSchool'), rest = t('starterRest'), play = t('starterPlay'), sport = t('starterSport');
+  return [
+    { id: 'starter:school', name: t('starterSchoolWeek'), events: [
+      ...starter(school, WEEKDAYS, '08:00', '15:00', school, '#2563eb'),
+      ...starter(t('starterHomework'), DAYS.slice(0, 4), '16:00', '17:00', school, '#2563eb'),
+      ...starter(t('starterReading'), DAYS, '19:30', '20:00', rest, '#8b5cf6'),
+    ] },
+    { id: 'starter:holiday', name: t('starterSummer'), events: [
+      ...starter(t('starterDayCamp'), WEEKDAYS, '09:00', '13:00', play, '#f59e0b'),
+      ...starter(t('starterSwimming'), ['Tuesday', 'Thursday'], '15:00', '16:00', sport, '#22c55e'),
+      ...starter(t('starterPark'), ['Saturday', 'Sunday'], '10:00', '12:00', play, '#f59e0b'),
+    ] },
+    { id: 'starter:weekend', name: t('starterWeekend'), events: [
+      ...starter(t('starterFootball'), ['Saturday'], '10:00', '11:30', sport, '#22c55e'),
+      ...starter(t('starterFamilyTime'), ['Sunday'], '11:00', '14:00', t('family'), '#ef4444'),
+    ] },
+  ];
+}
+
+export function templateFromWeek(name: string, occurrences: Occurrence[]): Template {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    events: occurrences.map(({ title, day, start, end, category, color, notes, tasks, points }) => ({ title, day, start, end, category, color, notes, tasks, points })),
+  };
+}
+// A copy is a new event on `day`: a series keeps its rhythm but not its per-date skips and changes,
+// a one-off lands on `date`. Tasks get new ids so their ticks are not shared.
+export function copyEvent(e: TemplateEvent & { repeat?: Repeat }, day: Day, date: string): EventItem {
+  const { title, start, end, category, color, notes, points } = e;
+  return {
+    id: crypto.randomUUID(), title, day, start, end, category, color, notes,
+    ...(e.tasks ? { tasks: e.tasks.map(t => ({ ...t, id: crypto.randomUUID() })) } : {}),
+    ...(points ? { points } : {}),
+    ...(e.repeat ? { repeat: { ...e.repeat, days: [day] } } : { date }),
+  };
+}
+export function eventsFromTemplate(template: Template, weekStart: string, span: 'week' | 'ongoing') {
+  return template.events.map(e => {
+    const date = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).find(d => dayOf(d) === e.day)!;
+    return copyEvent(span === 'ongoing' ? { ...e, repeat: { days: [e.day], every: 1, from: weekStart } } : e, e.day, date);
+  });
+}
+// Takes events off the dates from `from` to `to` (or from `from` on, without `to`): one-offs are removed,
+// series skip those dates or, when open-ended, end the day before.
+export function clearDates(events: EventItem[], from: string, to?: string): EventItem[] {
+  return events.flatMap(e => {
+    if (!e.repeat) return e.date! >= from && (!to || e.date! <= to) ? [] : [e];
+    if (to) {
+      const dates = Array.from({ length: daysBetween(from, to) + 1 }, (_, i) => addDays(from, i)).filter(d => occursOn(e, d));
+      return [dates.length ? { ...e, skip: [...(e.skip ?? []), ...dates] } : e];
+    }
+    if (e.repeat.until && e.repeat.until < from) return [e];
+    if (e.repeat.from && e.repeat.from >= from) return [];
+    return [{ ...e, repeat: { ...e.repeat, until: addDays(from, -1) } }];
+  });
+}
+
+// --- Stars ---
+
+export function parsePoints(text: string) {
+  const n = parseInt(text, 10);
+  return n > 0 ? n : undefined;
+}
+export function starBalance(ledger: LedgerEntry[] = []) {
+  return ledger.reduce((sum, x) => sum + x.points, 0);
+}
+export function starsEarned(ledger: LedgerEntry[] = [], from: string, to: string) {
+  return ledger.filter(x => x.points > 0 && x.date >= from && x.date <= to).reduce((sum, x) => sum + x.points, 0);
+}
+
+// --- Parent PIN ---
+
+// SHA-256 (FIPS 180-4) in plain TypeScript, because Hermes has no crypto.subtle. A short PIN can still be
+// guessed by anyone who can read the device's storage; the salted hash only keeps it from being read back.
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+export function sha256(text: string) {
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  const bytes = new TextEncoder().encode(text);
+  const padded = new Uint8Array(((bytes.length + 9 + 63) >> 6) << 6);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, (bytes.length * 8) >>> 0);
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const w = new Array<number>(64);
+  for (let block = 0; block < padded.length; block += 64) {
+    for (let t = 0; t < 64; t++) {
+      w[t] = t < 16 ? view.getUint32(block + t * 4)
+        : (w[t - 16] + (rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3)) + w[t - 7] + (rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10))) | 0;
+    }
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let t = 0; t < 64; t++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[t] + w[t]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      [h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) | 0, c, b, a, (t1 + t2) | 0];
+    }
+    [a, b, c, d, e, f, g, h].forEach((x, i) => { hash[i] = (hash[i] + x) | 0; });
+  }
+  return hash.map(x => (x >>> 0).toString(16).padStart(8, '0')).join('');
+}
+export function hashPin(pin: string, salt: string) {
+  let hash = '';
+  for (let i = 0; i < 1000; i++) hash = sha256(salt + hash + pin);
+  return hash;
+}
+
+// --- Week grid layout ---
+
+export type Placed<T> = { item: T; lane: number; lanes: number };
+export type Overflow<T> = { items: T[]; top: number; bottom: number; lane: number; lanes: number }; // top/bottom in minutes
+
+const MIN_LANE_WIDTH = 44;
+const MAX_LANES = Math.max(1, Math.floor((160 - 8) / MIN_LANE_WIDTH));
+
+// Calendar-style collision layout for one day column. Events that overlap, directly or through a
+// chain, form a cluster that shares the column width in lanes; each event takes the first lane that
+// is free at its start. Past `maxLanes` the last lane becomes a "+N more" marker for the rest.
+export function layoutColumn<T extends { start: string; end: string }>(items: T[], maxLanes = MAX_LANES) {
+  const sorted = [...items].sort((a, b) => toMinutes(a.start) - toMinutes(b.start) || toMinutes(b.end) - toMinutes(a.end));
+  const blocks: Placed<T>[] = [];
+  const more: Overflow<T>[] = [];
+  let cluster: { item: T; lane: number }[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = -Infinity;
+  const flush = () => {
+    const lanes = laneEnds.length;
+    if (lanes <= maxLanes) {
+      cluster.forEach(c => blocks.push({ ...c, lanes }));
+    } else {
+      const hidden = cluster.filter(c => c.lane >= maxLanes - 1).map(c => c.item);
+      cluster.filter(c => c.lane < maxLanes - 1).forEach(c => blocks.push({ ...c, lanes: maxLanes }));
+      more.push({
+        items: hidden,
+        top: Math.min(...hidden.map(i => toMinutes(i.start))),
+        bottom: Math.max(...hidden.map(i => toMinutes(i.end))),
+        lane: maxLanes - 1,
+        lanes: maxLanes,
+      });
+    }
+    cluster = []; laneEnds = []; clusterEnd = -Infinity;
+  };
+  sorted.forEach(item => {
+    const start = toMinutes(item.start), end = toMinutes(item.end);
+    if (start >= clusterEnd) flush();
+    let lane = laneEnds.findIndex(e => e <= start);
+    if (lane < 0) { lane = laneEnds.length; laneEnds.push(end); } else laneEnds[lane] = end;
+    cluster.push({ item, lane });
+    clusterEnd = Math.max(clusterEnd, end);
+  });
+  flush();
+  return { blocks, more };
+}
+export type Slot = { day: Day; start: string; end: string };
+export type DragGrid = { step: number; pxPerMinute: number; range: { start: number; end: number }; days: Day[]; columnWidth?: number };
+
+// Where a block lands after being dragged by (dx, dy) pixels: moves keep the duration and may change
+// column, resizes only move the end. Times snap to `step` minutes and stay inside the grid.
+export function dragResult(e: Slot, mode: 'move' | 'resize', dx: number, dy: number, grid: DragGrid): Slot {
+  const { step, pxPerMinute, range, days, columnWidth = 160 } = grid;
+  const snap = (m: number) => Math.round(m / step) * step;
+  const clamp = (v: number, lo: number, hi: number) => Math.min(Math.max(v, lo), hi);
+  const start = toMinutes(e.start), end = toMinutes(e.end);
+  const delta = dy / pxPerMinute;
+  if (mode === 'resize') {
+    return { day: e.day, start: e.start, end: fromMinutes(clamp(snap(end + delta), start + step, Math.max(range.end, end))) };
+  }
+  const length = end - start;
+  const newStart = clamp(snap(start + delta), range.start, Math.max(range.start, range.end - length));
+  const day = days[clamp(days.indexOf(e.day) + Math.round(dx / columnWidth), 0, days.length - 1)];
+  return { day, start: fromMinutes(newStart), end: fromMinutes(newStart + length) };
+}
+// A dropped block changes only its own date. In a series a move within the day becomes a per-date
+// change, and a move to another day skips the date and adds a one-off there. One-offs just move.
+export function moveOccurrence(e: EventItem, date: string, to: Slot, toDate: string): EventItem[] {
+  if (!e.repeat) return [{ ...e, ...to, date: toDate }];
+  const { [date]: change, ...changes } = e.changes ?? {};
+  if (toDate === date) return [{ ...e, changes: { ...e.changes, [date]: { ...change, start: to.start, end: to.end } } }];
+  const { repeat, skip, changes: _, ...rest } = e;
+  return [{ ...e, skip: [...(skip ?? []), date], changes }, { ...rest, ...change, id: crypto.randomUUID(), ...to, date: toDate }];
+}
+
+// Horizontal position of a lane inside a day column, leaving the column's 4px side margins.
+// `start` is the left edge, or the right edge in right-to-left layouts.
+export function laneBox(lane: number, lanes: number, columnWidth = 160) {
+  const width = (columnWidth - 8) / lanes;
+  return { start: 4 + lane * width, width: width - (lanes > 1 ? 2 : 0) };
+}
+// Vertical position of a block in pixels, clipped to the visible hours.
+export function slotBox(start: string, end: string, settings: Settings, rowHeight: number) {
+  const range = gridRange(settings);
+  const from = Math.max(toMinutes(start), range.start), to = Math.min(toMinutes(end), range.end);
+  return { top: ((from - range.start) / settings.slotMinutes) * rowHeight, height: ((to - from) / settings.slotMinutes) * rowHeight };
+}
+// One day column: events in the visible hours get lanes, the rest are listed as before/after the grid.
+export function layoutDay<T extends Slot>(items: T[], settings: Settings) {
+  const { start, end } = gridRange(settings);
+  const before = items.filter(e => toMinutes(e.end) <= start);
+  const after = items.filter(e => toMinutes(e.start) >= end);
+  return { ...layoutColumn(items.filter(e => toMinutes(e.end) > start && toMinutes(e.start) < end)), before, after };
+}
+
+// --- Statistics ---
+
+export type DayStats = { day: Day; date: string; busy: number; free: number; overloaded: boolean }; // minutes
+export type WeekStats = { categories: { name: string; color: string; minutes: number }[]; days: DayStats[]; busy: number; free: number };
+
+export const MIN_FREE_MINUTES = 2 * 60;
+
+// Minutes covered by the events inside [from, to); overlapping events count once.
+function coveredMinutes(items: { start: string; end: string }[], from: number, to: number) {
+  const spans = items
+    .map(e => [Math.max(toMinutes(e.start), from), Math.min(toMinutes(e.end), to)])
+    .filter(([a, b]) => b > a)
+    .sort((x, y) => x[0] - y[0]);
+  let total = 0, reach = from;
+  spans.forEach(([a, b]) => {
+    if (b > reach) { total += b - Math.max(a, reach); reach = b; }
+  });
+  return total;
+}
+// Category totals add up each event's full length. Day totals count parallel events once, and free
+// time is what is left of the waking window; a day with less than MIN_FREE_MINUTES free is overloaded.
+export function weekStats(events: Occurrence[], categories: Category[], weekStart: string, waking: { start: number; end: number }, t: Translate): WeekStats {
+  const totals = new Map<string, { name: string; color: string; minutes: number }>();
+  events.forEach(e => {
+    const category = findCategory(categories, e.category);
+    const total = totals.get(category?.id ?? '') ?? { name: category?.name ?? t('other'), color: category?.color ?? '#94a3b8', minutes: 0 };
+    total.minutes += toMinutes(e.end) - toMinutes(e.start);
+    totals.set(category?.id ?? '', total);
+  });
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).map(date => {
+    const onDay = events.filter(e => e.date === date);
+    const free = waking.end - waking.start - coveredMinutes(onDay, waking.start, waking.end);
+    return { day: dayOf(date), date, busy: coveredMinutes(onDay, 0, 24 * 60), free, overloaded: free < MIN_FREE_MINUTES };
+  });
+  return {
+    categories: [...totals.values()].sort((a, b) => b.minutes - a.minutes),
+    days,
+    busy: days.reduce((sum, d) => sum + d.busy, 0),
+    free: days.reduce((sum, d) => sum + d.free, 0),
+  };
+}
+export function formatHours(minutes: number, t: Translate) {
+  const h = Math.floor(minutes / 60), m = minutes % 60;
+  return t(h && m ? 'hoursMinutes' : m ? 'minutesOnly' : 'hoursOnly', { h, m });
+}
+
+// --- Today ---
+
+// Below this window width the 'auto' layout shows a single day instead of the week grid.
+export const NARROW_WIDTH = 700;
+
+/** What is on at `minutes` past midnight and what starts next, from one day's occurrences. */
+export function nowNext<T extends Occurrence>(dayEvents: T[], minutes: number): { now: T[]; next: T | null } {
+  const sorted = [...dayEvents].sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+  return {
+    now: sorted.filter(e => toMinutes(e.start) <= minutes && minutes < toMinutes(e.end)),
+    next: sorted.find(e => toMinutes(e.start) > minutes) ?? null,
+  };
+}
+
+// --- Caregivers ---
+
+export type Handover<T extends Occurrence = Occurrence> = { event: T; duty: 'dropOff' | 'pickUp'; caregiver: string; time: string };
+export type HandoverClash<T extends Occurrence = Occurrence> = { caregiver: string; first: Handover<T>; second: Handover<T> };
+
+export function findCaregiver(caregivers: Caregiver[], id: string | undefined) {
+  return id ? caregivers.find(c => c.id === id) : undefined;
+}
+export function assignedTo(e: EventItem, caregiverId: string) {
+  return e.dropOff === caregiverId || e.pickUp === caregiverId;
+}
+// Takes a caregiver off an event and off its per-date changes.
+export function unassignCaregiver(e: EventItem, caregiverId: string): EventItem {
+  const clear = <T extends OccurrenceChange>(x: T): T => ({ ...x, ...(x.dropOff === caregiverId ? { dropOff: '' } : {}), ...(x.pickUp === caregiverId ? { pickUp: '' } : {}) });
+  const changes = e.changes && Object.fromEntries(Object.entries(e.changes).map(([date, c]) => [date, clear(c)]));
+  return { ...clear(e), ...(changes ? { changes } : {}) };
+}
+// The drop-off happens when the event starts and the pick-up when it ends.
+export function handoversOf<T extends Occurrence>(e: T): Handover<T>[] {
+  const duties = [['dropOff', e.dropOff, e.start], ['pickUp', e.pickUp, e.end]] as const;
+  return duties.filter(([, caregiver]) => !!caregiver).map(([duty, caregiver, time]) => ({ event: e, duty, caregiver: caregiver!, time }));
+}
+// A handover keeps its caregiver busy until they can be somewhere else `travel` minutes later (at least
+// a minute, so two at the same time always clash). Handovers of one event, or of same-titled events at
+// the same time such as siblings going to one school, happen in one place and never clash.
+export function handoverClashes<T extends Occurrence>(events: T[], travel: number): HandoverClash<T>[] {
+  const slot = (h: Handover<T>): Slot => ({ day: h.event.day, start: h.time, end: fromMinutes(Math.min(toMinutes(h.time) + Math.max(travel, 1), 24 * 60)) });
+  const samePlace = (a: Handover<T>, b: Handover<T>) => (a.event.id === b.event.id && a.event.date === b.event.date)
+    || (a.time === b.time && a.event.title.trim().toLowerCase() === b.event.title.trim().toLowerCase());
+  const all = events.flatMap(e => handoversOf(e)).sort((a, b) => a.event.date.localeCompare(b.event.date) || toMinutes(a.time) - toMinutes(b.time));
+  return all.flatMap((first, i) => all.slice(i + 1)
+    .filter(second => second.caregiver === first.caregiver && second.event.date === first.event.date && !samePlace(first, second) && overlaps(slot(first), slot(second)))
+    .map(second => ({ caregiver: first.caregiver, first, second })));
+}
+
+// --- Print ---
+
+export type PrintOptions = { paper: 'A4' | 'Letter'; orientation: 'portrait' | 'landscape'; photo: boolean; legend: boolean; stats: boolean };
+export type PrintEvent = Occurrence & { color: string; owner?: string; caregivers?: string }; // caregivers: who drops off and picks up
+export type PrintInput = {
+  title: string;
+  weekStart: string;
+  events: PrintEvent[];
+  legend: { label: string; color: string }[];
+  accent: string;
+  bgColor: string;
+  photo: string | null;
+  settings: Settings;
+  stats: { name: string; stats: WeekStats }[];
+  warnings: string[]; // listed under the grid, e.g. handover clashes
+  t: Translate;
+  locale: string;
+  clock: Clock;
+  rtl: boolean;
+};
+
+const PAPER_MM = { A4: [210, 297], Letter: [215.9, 279.4] };
+const PRINT_MARGIN_MM = 10;
+
+function escapeHTML(text: string) {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+// Colors end up inside style attributes, so anything that is not a plain hex color is replaced.
+function cssColor(color: string, fallback: string) {
+  return /^#[0-9a-f]{3,8}$/i.test(color) ? color : fallback;
+}
+
+export function printHTML(input: PrintInput, options: PrintOptions) {
+  const { title, weekStart, events, legend, settings, t, locale } = input;
+  const accent = cssColor(input.accent, defaultAccent);
+  const rowHeight = 48;
+  const slots = slotTimes(settings);
+  const range = gridRange(settings);
+  const showPhoto = options.photo && !!input.photo;
+  const showLegend = options.legend && legend.length > 0;
+  const showStats = options.stats && input.stats.length > 0;
+
+  // Shrink the fixed-width grid so the whole week fits on one sheet.
+  const [w, h] = PAPER_MM[options.paper];
+  const [pageW, pageH] = (options.orientation === 'portrait' ? [w, h] : [h, w]).map(mm => ((mm - 2 * PRINT_MARGIN_MM) * 96) / 25.4);
+  const contentW = 120 + 7 * 160 + 7 + 40;
+  const contentH = 40 + (showPhoto ? 80 : 50) + 40 + slots.length * rowHeight + (showLegend ? 50 : 0) + (showStats ? 40 + input.stats.length * 110 : 0) + input.warnings.length * 16 + 40;
+  const zoom = Math.min(1, pageW / contentW, pageH / contentH);
+
+  const weekDays = weekDaysFor(settings);
+  const weekDates = weekDays.map((_, i) => addDays(weekStart, i));
+  const columns = weekDays.map(day => layoutDay(events.filter(e => e.day === day), settings));
+  const hidden = columns.flatMap(c => [...c.before, ...c.more.flatMap(m => m.items), ...c.after]);
+  const time = (value: string) => escapeHTML(formatTime(value, input.clock, input.locale));
+
+  const block = (e: PrintEvent, lane: number, lanes: number) => {
+    const { start, width } = laneBox(lane, lanes);
+    const { top, height } = slotBox(e.start, e.end, settings, rowHeight);
+    const color = cssColor(e.color, accent);
+    return `
+      <div class="block" style="top: ${top}px; height: ${height}px; inset-inline-start: ${start}px; width: ${width}px; background: ${color}1A; border-color: ${color};">
+        <div class="event-title" style="color: ${color};">${escapeHTML(e.title)}</div>
+        <div class="event-time">${time(e.start)} – ${time(e.end)}</div>
+        ${e.owner ? `<div class="event-category">${escapeHTML(e.owner)}</div>` : ''}
+        ${e.category ? `<div class="event-category">${escapeHTML(e.category)}</div>` : ''}
+        ${e.caregivers ? `<div class="event-category">${escapeHTML(e.caregivers)}</div>` : ''}
+        ${e.notes ? `<div class="event-notes">${escapeHTML(e.notes)}</div>` : ''}
+      </div>`;
+  };
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHTML(locale)}" dir="${input.rtl ? 'rtl' : 'ltr'}">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHTML(title)}</title>
+  <style>
+    @page { size: ${options.paper} ${options.orientation}; margin: ${PRINT_MARGIN_MM}mm; }
+    * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    body { font-family: Arial, sans-serif; margin: 0; background: ${cssColor(input.bgColor, defaultBg)}; }
+    .planner-container { zoom: ${zoom.toFixed(3)}; width: ${contentW - 40}px; background: white; padding: 20px; border-radius: 12px; }
+    .header { display: flex; align-items: center; gap: 15px; margin-bottom: 20px; }
+    .photo { width: 64px; height: 64px; border-radius: 16px; border: 2px solid ${accent}; object-fit: cover; }
+    .title { font-size: 24px; font-weight: bold; color: ${accent}; }
+    .week { color: #64748b; }
+    .grid { display: flex; gap: 1px; }
+    .day-header { background: ${accent}; color: white; padding: 10px; text-align: center; font-weight: bold; height: 40px; box-sizing: border-box; }
+    .time-header { height: 40px; }
+    .time-slot { background: #f8fafc; border: 1px solid #e5e7eb; height: ${rowHeight}px; box-sizing: border-box; }
+    .time-label { display: flex; align-items: flex-start; justify-content: flex-end; padding-inline-end: 8px; font-size: 12px; color: #64748b; background: none; border: none; }
+    .day-body { position: relative; }
+    .block { position: absolute; box-sizing: border-box; overflow: hidden; border: 1px solid; border-radius: 8px; padding: 4px 6px; font-size: 11px; }
+    .more { position: absolute; box-sizing: border-box; border: 1px dashed ${accent}; border-radius: 8px; background: white; color: ${accent}; font-size: 11px; font-weight: bold; text-align: center; padding: 4px 0; }
+    .event-title { font-weight: bold; }
+    .event-time { color: #334155; }
+    .event-category { color: #475569; font-style: italic; }
+    .event-notes { color: #475569; margin-top: 2px; }
+    .legend { display: flex; flex-wrap: wrap; gap: 14px; margin-top: 16px; font-size: 12px; color: #334155; }
+    .swatch { display: inline-block; width: 12px; height: 12px; border-radius: 3px; margin-inline-end: 6px; vertical-align: middle; }
+    .hidden-list { margin-top: 10px; font-size: 11px; color: #475569; }
+    .warnings { margin-top: 10px; font-size: 12px; color: #b91c1c; }
+    .stats { margin-top: 16px; font-size: 12px; color: #334155; }
+    .stats h3 { margin: 10px 0 6px; font-size: 14px; color: ${accent}; }
+    .stats table { border-collapse: collapse; width: 100%; table-layout: fixed; margin-top: 6px; }
+    .stats td, .stats th { border: 1px solid #e5e7eb; padding: 3px 6px; text-align: center; }
+    .stats .overloaded { background: #fef2f2; color: #b91c1c; font-weight: bold; }
+  </style>
+</head>
+<body>
+  <div class="planner-container">
+    <div class="header">
+      ${showPhoto ? `<img class="photo" src="${escapeHTML(input.photo!)}" />` : ''}
+      <div>
+        <div class="title">${escapeHTML(title)}</div>
+        <div class="week">${formatDate(weekStart, locale)} – ${formatDate(addDays(weekStart, 6), locale, true)}</div>
+      </div>
+    </div>
+    <div class="grid">
+      <div style="width: 120px;">
+        <div class="time-header"></div>
+        ${slots.map(m => `<div class="time-slot time-label">${time(fromMinutes(m))}</div>`).join('')}
+      </div>
+      ${weekDays.map((day, i) => `
+        <div style="width: 160px;">
+          <div class="day-header">${escapeHTML(dayName(day, locale))} <small>${formatDate(weekDates[i], locale)}</small></div>
+          <div class="day-body">
+            ${slots.map(() => '<div class="time-slot"></div>').join('')}
+            ${columns[i].blocks.map(b => block(b.item, b.lane, b.lanes)).join('')}
+            ${columns[i].more.map(m => {
+              const { start, width } = laneBox(m.lane, m.lanes);
+              return `<div class="more" style="top: ${((Math.max(m.top, range.start) - range.start) / settings.slotMinutes) * rowHeight}px; inset-inline-start: ${start}px; width: ${width}px;">${escapeHTML(t('moreN', { n: m.items.length }))}</div>`;
+            }).join('')}
+          </div>
+        </div>
+      `).join('')}
+    </div>
+    ${hidden.length ? `<div class="hidden-list">${escapeHTML(t('printAlso'))} ${hidden.map(e => `${escapeHTML(dayName(e.day, locale, 'short'))} ${time(e.start)}–${time(e.end)} ${escapeHTML(e.title)}`).join(' · ')}</div>` : ''}
+    ${input.warnings.length ? `<div class="warnings">${input.warnings.map(w => `<div>⚠ ${escapeHTML(w)}</div>`).join('')}</div>` : ''}
+    ${showStats ? `<div class="stats">${input.stats.map(({ name, stats }) => `
+      <h3>${escapeHTML(t('weekBalance'))}${input.stats.length > 1 ? ` – ${escapeHTML(name)}` : ''}</h3>
+      <div>${stats.categories.map(c => `<span class="swatch" style="background: ${cssColor(c.color, accent)};"></span>${escapeHTML(c.name)} ${formatHours(c.minutes, t)}`).join(' &nbsp; ') || escapeHTML(t('nothingPlanned'))}</div>
+      <table>
+        <tr><th></th>${stats.days.map(d => `<th>${escapeHTML(dayName(d.day, locale, 'short'))}</th>`).join('')}</tr>
+        <tr><th>${escapeHTML(t('planned'))}</th>${stats.days.map(d => `<td>${formatHours(d.busy, t)}</td>`).join('')}</tr>
+        <tr><th>${escapeHTML(t('free'))}</th>${stats.days.map(d => `<td class="${d.overloaded ? 'overloaded' : ''}">${formatHours(d.free, t)}${d.overloaded ? ' ⚠' : ''}</td>`).join('')}</tr>
+      </table>`).join('')}</div>` : ''}
+    ${showLegend ? `<div class="legend">${legend.map(l => `<span><span class="swatch" style="background: ${cssColor(l.color, accent)};"></span>${escapeHTML(l.label)}</span>`).join('')}</div>` : ''}
+  </div>
+</body>
+</html>`;
+}
+
+// --- CSV (RFC 4180) ---
+
+export type CsvPreview = {
+  valid: EventItem[];
+  rejected: { row: number; reason: string }[];
+  duplicates: { row: number; title: string; matchId: string }[];
+};
+
+const CSV_COLUMNS = ['id','title','day','start','end','category','color','notes','date','repeat_days','repeat_every','repeat_from','repeat_until','skip','tasks','changes','points','drop_off','pick_up'];
+const REQUIRED_COLUMNS = ['title','day','start','end'];
+const HHMM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function csvCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+export function toCSV(events: EventItem[]) {
+  const rows = events.map(e => [
+    e.id, e.title, e.day, e.start, e.end, e.category, e.color, e.notes ?? '', e.date ?? '',
+    e.repeat?.days.join(';') ?? '', e.repeat ? String(e.repeat.every) : '', e.repeat?.from ?? '', e.repeat?.until ?? '',
+    (e.skip ?? []).join(';'),
+    e.tasks?.length ? JSON.stringify(e.tasks) : '',
+    e.changes && Object.keys(e.changes).length ? JSON.stringify(e.changes) : '',
+    e.points ? String(e.points) : '',
+    e.dropOff ?? '', e.pickUp ?? '',
+  ]);
+  return [CSV_COLUMNS, ...rows].map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function parseCSV(text: string, t: Translate): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [], field = '', quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && field === '') quoted = true;
+    else if (c === ',') { row.push(field); field = ''; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += c;
+  }
+  if (quoted) throw new Error(t('csvUnterminated'));
+  if (field !== '' || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+}
+
+function isTaskList(value: unknown): value is Task[] {
+  return Array.isArray(value) && value.every(task =>
+    typeof task?.id === 'string' && typeof task.text === 'string' && (task.points === undefined || (Number.isInteger(task.points) && task.points > 0)));
+}
+// Changes are keyed by the date of the occurrence they alter.
+function isChangeMap(value: unknown): value is Record<string, OccurrenceChange> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.entries(value).every(([date, change]) => isISODate(date) && !!change && typeof change === 'object' && !Array.isArray(change));
+}
+
+function eventKey(e: EventItem) {
+  return [e.title.trim().toLowerCase(), e.day, e.start, e.end, e.date ?? ''].join('|');
+}
+
+// Rows are numbered as the user sees them in a spreadsheet: the header is row 1.
+export function previewCSV(text: string, existing: EventItem[], fallbackColor: string, t: Translate): CsvPreview {
+  const [header, ...records] = parseCSV(text, t);
+  if (!header) throw new Error(t('csvEmpty'));
+  const cols = header.map(h => h.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter(c => !cols.includes(c));
+  if (missing.length) throw new Error(t(missing.length > 1 ? 'csvMissingColumns' : 'csvMissingColumn', { columns: missing.join(', ') }));
+
+  const preview: CsvPreview = { valid: [], rejected: [], duplicates: [] };
+  const seen = new Map<string, number>();
+  records.forEach((cells, i) => {
+    const row = i + 2;
+    const reject = (reason: string) => preview.rejected.push({ row, reason });
+    if (cells.length !== cols.length) return reject(t('csvColumnCount', { n: cells.length, expected: cols.length }));
+    const get = (c: string) => (cells[cols.indexOf(c)] ?? '').trim();
+    const day = DAYS.find(d => d.toLowerCase() === get('day').toLowerCase());
+    const date = get('date');
+    const color = get('color');
+    if (!get('title')) return reject(t('csvNoTitle'));
+    if (!day) return reject(t('csvBadDay', { value: get('day') }));
+    if (!HHMM.test(get('start'))) return reject(t('csvBadStart', { value: get('start') }));
+    if (!(HHMM.test(get('end')) || get('end') === '24:00')) return reject(t('csvBadEnd', { value: get('end') }));
+    if (get('start') >= get('end')) return reject(t('csvEndBeforeStart'));
+    if (color && !/^#[0-9a-f]{6}$/i.test(color)) return reject(t('csvBadColor', { value: color }));
+    if (date && (!isISODate(date) || dayOf(date) !== day)) return reject(t('csvBadDate', { value: date, day }));
+
+    const event: EventItem = {
+      id: get('id') || crypto.randomUUID(),
+      title: get('title'),
+      day,
+      start: get('start'),
+      end: get('end'),
+      category: get('category'),
+      color: color || fallbackColor,
+      notes: cols.includes('notes') ? cells[cols.indexOf('notes')] : '',
+    };
+    if (date) event.date = date;
+    const repeatDays = get('repeat_days');
+    if (repeatDays) {
+      const days = repeatDays.split(';').map(x => DAYS.find(d => d.toLowerCase() === x.trim().toLowerCase()));
+      if (days.some(d => !d)) return reject(t('csvBadRepeatDays', { value: repeatDays }));
+      const every = get('repeat_every') ? Number(get('repeat_every')) : 1;
+      if (!Number.isInteger(every) || every < 1) return reject(t('csvBadRepeatEvery'));
+      const from = get('repeat_from'), until = get('repeat_until');
+      if ((from && !isISODate(from)) || (until && !isISODate(until))) return reject(t('csvBadRepeatDates'));
+      if (every > 1 && !from) return reject(t('csvRepeatNeedsFrom'));
+      event.repeat = { days: DAYS.filter(d => days.includes(d)), every, ...(from ? { from } : {}), ...(until ? { until } : {}) };
+      delete event.date;
+    }
+    const skip = get('skip') ? get('skip').split(';').map(x => x.trim()) : [];
+    if (skip.some(d => !isISODate(d))) return reject(t('csvBadSkip'));
+    if (skip.length) event.skip = skip;
+    let tasks: unknown, changes: unknown;
+    try {
+      if (get('tasks')) tasks = JSON.parse(get('tasks'));
+      if (get('changes')) changes = JSON.parse(get('changes'));
+    } catch {
+      return reject(t('csvBadJson'));
+    }
+    if (tasks !== undefined) {
+      if (!isTaskList(tasks)) return reject(t('csvBadTasks'));
+      event.tasks = tasks;
+    }
+    if (changes !== undefined) {
+      if (!isChangeMap(changes)) return reject(t('csvBadChanges'));
+      event.changes = changes;
+    }
+
+    if (get('points')) {
+      const points = Number(get('points'));
+      if (!Number.isInteger(points) || points < 0) return reject(t('csvBadPoints'));
+      if (points) event.points = points;
+    }
+    if (get('drop_off')) event.dropOff = get('drop_off');
+    if (get('pick_up')) event.pickUp = get('pick_up');
+
+    const key = eventKey(event);
+    if (seen.has(key)) return reject(t('csvDuplicateRow', { row: seen.get(key)! }));
+    seen.set(key, row);
+    const match = existing.find(e => e.id === event.id || eventKey(e) === key);
+    if (match) preview.duplicates.push({ row, title: event.title, matchId: match.id });
+    preview.valid.push(upgradeEvent(event));
+  });
+  return preview;
+}
+
+// --- iCalendar (RFC 5545) ---
+
+export type ImportSummary = { imported: number; skipped: { title: string; reason: string }[] };
+
+const ICS_DAYS = ['MO','TU','WE','TH','FR','SA','SU'];
+
+function icsEscape(text: string) {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+function icsUnescape(text: string) {
+  return text.replace(/\\([\\;,nN])/g, (_, c) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+// Content lines are folded at 75 octets; continuation lines start with a space.
+function icsFold(line: string) {
+  const out: string[] = [];
+  let current = '', size = 0;
+  for (const ch of line) {
+    const cp = ch.codePointAt(0)!;
+    const bytes = cp < 0x80 ? 1 : cp < 0x800 ? 2 : cp < 0x10000 ? 3 : 4;
+    if (size + bytes > (out.length ? 74 : 75)) { out.push(current); current = ''; size = 0; }
+    current += ch; size += bytes;
+  }
+  out.push(current);
+  return out.join('\r\n ');
+}
+function icsLocal(date: string, time: string) {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+// A series has no fixed first date unless `from` is set, so start from the current week.
+function firstOccurrence(e: EventItem, today: string) {
+  if (!e.repeat) return e.date ?? addDays(startOfWeek(today), DAYS.indexOf(e.day));
+  let date = e.repeat.from ?? startOfWeek(today);
+  for (let i = 0; i < 7 * Math.max(1, e.repeat.every); i++, date = addDays(date, 1)) {
+    if (occursOn({ ...e, skip: [] }, date)) return date;
+  }
+  return date;
+}
+
+export function toICS(events: EventItem[], calendarName: string) {
+  const today = toISODate(new Date());
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//kidsplanner.space//Kids Weekly Planner//EN', 'CALSCALE:GREGORIAN', `X-WR-CALNAME:${icsEscape(calendarName)}`];
+  const vevent = (e: EventItem, date: string, extra: string[]) => {
+    // iCalendar has no 24:00, so a midnight end is written as 00:00 the next day.
+    const end = e.end === '24:00' ? icsLocal(addDays(date, 1), '00:00') : icsLocal(date, e.end);
+    lines.push('BEGIN:VEVENT', `UID:${e.id}@kidsplanner.space`, `DTSTAMP:${stamp}`);
+    lines.push(`DTSTART:${icsLocal(date, e.start)}`, `DTEND:${end}`);
+    lines.push(`SUMMARY:${icsEscape(e.title)}`, ...extra);
+    if (e.category) lines.push(`CATEGORIES:${icsEscape(e.category)}`);
+    if (e.color) lines.push(`X-KWP-COLOR:${e.color}`);
+    if (e.notes) lines.push(`DESCRIPTION:${icsEscape(e.notes)}`);
+    lines.push('END:VEVENT');
+  };
+  events.forEach(e => {
+    if (!e.repeat) return vevent(e, firstOccurrence(e, today), []);
+    const rule = [`FREQ=WEEKLY`, `INTERVAL=${e.repeat.every}`, `BYDAY=${e.repeat.days.map(d => ICS_DAYS[DAYS.indexOf(d)]).join(',')}`];
+    if (e.repeat.until) rule.push(`UNTIL=${icsLocal(e.repeat.until, '23:59')}`);
+    vevent(e, firstOccurrence(e, today), [`RRULE:${rule.join(';')}`, ...(e.skip ?? []).map(d => `EXDATE:${icsLocal(d, e.start)}`)]);
+    // A per-date change overrides that occurrence, which is named by its original start.
+    Object.entries(e.changes ?? {})
+      .filter(([date]) => occursOn(e, date))
+      .forEach(([date, change]) => vevent({ ...e, ...change }, date, [`RECURRENCE-ID:${icsLocal(date, e.start)}`]));
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(icsFold).join('\r\n') + '\r\n';
+}
+
+type IcsProp = { name: string; params: Record<string, string>; value: string };
+
+function parseIcsLine(line: string): IcsProp | null {
+  let quoted = false, colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(p => {
+    const eq = p.indexOf('=');
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// Offset of `timeZone` from UTC at instant `t`, in milliseconds.
+function zoneOffset(t: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(t));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - t;
+}
+// DATE-TIME values are floating, UTC ("Z") or wall time in a TZID; all become device-local Dates.
+// Zones Intl does not know (e.g. custom VTIMEZONE ids) are read as floating time.
+function parseIcsDateTime(prop: IcsProp): Date | null {
+  const m = prop.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return null;
+  const [y, mo, d, h, mi, s] = m.slice(1, 7).map(v => Number(v ?? 0));
+  if (!m[4]) return null; // all-day
+  if (m[7]) return new Date(Date.UTC(y, mo - 1, d, h, mi, s));
+  const tz = prop.params.TZID;
+  if (tz) {
+    try {
+      const wall = Date.UTC(y, mo - 1, d, h, mi, s);
+      const first = wall - zoneOffset(wall, tz);
+      return new Date(wall - zoneOffset(first, tz));
+    } catch {}
+  }
+  return new Date(y, mo - 1, d, h, mi, s);
+}
+function parseIcsDuration(value: string) {
+  const m = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [w, d, h, mi, s] = m.slice(2).map(v => Number(v ?? 0));
+  return (m[1] === '-' ? -1 : 1) * ((((w * 7 + d) * 24 + h) * 60 + mi) * 60 + s) * 1000;
+}
+function hhmm(d: Date) {
+  return `${String(d.getHours()).padStart(2,'0')}:${String(d.getMinutes()).padStart(2,'0')}`;
+}
+
+export function parseICS(text: string, fallbackColor: string, t: Translate, range = gridRange(defaultSettings)): { events: EventItem[]; summary: ImportSummary } {
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const vevents: IcsProp[][] = [];
+  let current: IcsProp[] | null = null;
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line)) { current = []; continue; }
+    if (/^END:VEVENT$/i.test(line)) { if (current) vevents.push(current); current = null; continue; }
+    const prop = current && parseIcsLine(line);
+    if (prop) current!.push(prop);
+  }
+
+  const events: EventItem[] = [];
+  const overrides: { recurrence: string; event: EventItem }[] = [];
+  const skipped: ImportSummary['skipped'] = [];
+  vevents.forEach(props => {
+    const get = (name: string) => props.find(p => p.name === name);
+    const title = icsUnescape(get('SUMMARY')?.value ?? '') || t('untitled');
+    const skip = (reason: string) => skipped.push({ title, reason });
+    if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') return skip(t('icsCancelled'));
+    const dtstart = get('DTSTART');
+    const start = dtstart && parseIcsDateTime(dtstart);
+    if (!start) return skip(t('icsNoStart'));
+    const dtend = get('DTEND');
+    const duration = get('DURATION') && parseIcsDuration(get('DURATION')!.value);
+    const end = dtend ? parseIcsDateTime(dtend) : duration ? new Date(start.getTime() + duration) : null;
+    if (!end || end <= start) return skip(t('icsNoEnd'));
+    const date = toISODate(start);
+    const endsAtMidnight = toISODate(end) === addDays(date, 1) && hhmm(end) === '00:00';
+    if (toISODate(end) !== date && !endsAtMidnight) return skip(t('icsMultiDay'));
+    const from = hhmm(start), to = endsAtMidnight ? '24:00' : hhmm(end);
+    if (toMinutes(from) < range.start || toMinutes(to) > range.end) return skip(t('icsOutsideGrid', { from, to, start: fromMinutes(range.start), end: fromMinutes(range.end) }));
+
+    const uid = get('UID')?.value ?? '';
+    const color = get('X-KWP-COLOR')?.value ?? get('COLOR')?.value ?? '';
+    const event: EventItem = {
+      id: uid.endsWith('@kidsplanner.space') ? uid.slice(0, -'@kidsplanner.space'.length) : uid || crypto.randomUUID(),
+      title,
+      day: dayOf(date),
+      start: from,
+      end: to,
+      category: icsUnescape(get('CATEGORIES')?.value.match(/^(?:\\.|[^,])*/)?.[0] ?? ''),
+      color: /^#[0-9a-f]{6}$/i.test(color) ? color : fallbackColor,
+      notes: icsUnescape(get('DESCRIPTION')?.value ?? ''),
+      date,
+    };
+    const recurrenceId = get('RECURRENCE-ID');
+    if (recurrenceId) {
+      const recurrence = parseIcsDateTime(recurrenceId);
+      if (!recurrence) return skip(t('icsChangedOccurrence'));
+      overrides.push({ recurrence: toISODate(recurrence), event });
+      return;
+    }
+
+    const rrule = get('RRULE');
+    if (rrule) {
+      const rule = Object.fromEntries(rrule.value.split(';').map(part => part.split('=') as [string, string]));
+      if (rule.FREQ !== 'WEEKLY' || Object.keys(rule).some(k => !['FREQ','INTERVAL','BYDAY','UNTIL','COUNT','WKST'].includes(k))) {
+        return skip(t('icsNotWeekly'));
+      }
+      const byday = rule.BYDAY ? rule.BYDAY.split(',') : [ICS_DAYS[DAYS.indexOf(event.day)]];
+      if (byday.some(d => !ICS_DAYS.includes(d))) return skip(t('icsNotWeekly'));
+      const until = rule.UNTIL && parseIcsDateTime({ name: 'UNTIL', params: dtstart!.params, value: rule.UNTIL.length === 8 ? `${rule.UNTIL}T235959` : rule.UNTIL });
+      event.repeat = {
+        days: DAYS.filter((_, i) => byday.includes(ICS_DAYS[i])),
+        every: Math.max(1, Number(rule.INTERVAL) || 1),
+        from: date,
+        ...(until ? { until: toISODate(until) } : {}),
+      };
+      delete event.date;
+      if (rule.COUNT) {
+        let left = Number(rule.COUNT), d = date;
+        for (let i = 0; left > 0 && i < 3660; i++, d = addDays(d, 1)) if (occursOn(event, d) && --left === 0) event.repeat.until = d;
+      }
+      const exdates = props
+        .filter(p => p.name === 'EXDATE')
+        .flatMap(p => p.value.split(',').map(value => parseIcsDateTime({ ...p, value: value.length === 8 ? `${value}T${dtstart!.value.slice(9, 15) || '000000'}` : value })))
+        .filter((d): d is Date => !!d)
+        .map(toISODate);
+      if (exdates.length) event.skip = exdates;
+    }
+    events.push(event);
+  });
+  // An occurrence changed on the same day becomes a per-date change of its series; moved ones are skipped.
+  overrides.forEach(({ recurrence, event }) => {
+    const series = events.find(e => e.id === event.id && e.repeat);
+    if (!series || event.date !== recurrence || !occursOn(series, recurrence)) return skipped.push({ title: event.title, reason: t('icsChangedOccurrence') });
+    const keys = (['title', 'start', 'end', 'category', 'color', 'notes'] as const).filter(k => event[k] !== series[k]);
+    series.changes = { ...series.changes, [recurrence]: Object.fromEntries(keys.map(k => [k, event[k]])) };
+  });
+  return { events, summary: { imported: events.length, skipped } };
+}
+
+export function newProfile(name: string, index: number): Profile {
+  return { id: crypto.randomUUID(), name, photo: null, accent: ACCENTS[index % ACCENTS.length], bgColor: defaultBg, events: [] };
+}
+
+// --- Planner document ---
+
+// Everything the planner keeps, saved as one document.
+export type PlannerDoc = { version: number; title: string; profiles: Profile[]; activeId: string; settings: Settings; categories: Category[]; templates: Template[];
+  caregivers: Caregiver[];
+  lock: PinLock | null; // parent PIN, set the first time kid mode is turned on
+  kidMode: boolean;
+};
+
+// MIGRATIONS[i] lifts a document from version i to i + 1; add a step whenever the stored shape changes.
+const MIGRATIONS: ((doc: PlannerDoc) => PlannerDoc)[] = [
+  // 0 → 1: the separate keys became one document; undated events became weekly series.
+  doc => ({ ...doc, settings: { ...defaultSettings, ...doc.settings }, profiles: doc.profiles.map(p => ({ ...p, events: p.events.map(upgradeEvent) })) }),
+  // 1 → 2: free-text categories are gathered into the category registry.
+  doc => {
+    let categories: Category[] = [];
+    const profiles = doc.profiles.map(p => {
+      const gathered = withCategories(categories, p.events);
+      categories = gathered.categories;
+      return { ...p, events: gathered.events };
+    });
+    return { ...doc, profiles, categories };
+  },
+  // 2 → 3: saved week templates.
+  doc => ({ ...doc, templates: doc.templates ?? [] }),
+  // 3 → 4: kid mode and its parent PIN.
+  doc => ({ ...doc, lock: doc.lock ?? null, kidMode: doc.kidMode ?? false }),
+  // 4 → 5: the week/day layout choice.
+  doc => ({ ...doc, settings: { ...doc.settings, layout: doc.settings.layout ?? 'auto' } }),
+  // 5 → 6: the language choice; a clock picked before keeps its setting.
+  doc => ({ ...doc, settings: { ...doc.settings, language: doc.settings.language ?? 'auto' } }),
+  // 6 → 7: caregivers for drop-offs and pick-ups, and the travel time between handovers.
+  doc => ({ ...doc, caregivers: doc.caregivers ?? [], settings: { ...doc.settings, travelMinutes: doc.settings.travelMinutes ?? defaultSettings.travelMinutes } }),
+];
+export const DOC_VERSION = MIGRATIONS.length;
+
+export function migrateDoc(doc: PlannerDoc, t: Translate): PlannerDoc {
+  if (doc.version > DOC_VERSION) throw new Error(t('newerVersion'));
+  let next = doc;
+  for (let v = doc.version; v < DOC_VERSION; v++) next = { ...MIGRATIONS[v](next), version: v + 1 };
+  if (!next.profiles.length) next = { ...next, profiles: [newProfile(t('childN', { n: 1 }), 0)] };
+  if (next.activeId !== FAMILY && !next.profiles.some(p => p.id === next.activeId)) next = { ...next, activeId: next.profiles[0].id };
+  return next;
+}
+
+// --- Backup and sharing ---
+
+const BACKUP_APP = 'kids-weekly-planner';
+export const SHARE_URL = 'https://kidsplanner.space/';
+
+export function toBackup(doc: PlannerDoc) {
+  return JSON.stringify({ app: BACKUP_APP, exportedAt: new Date().toISOString(), ...doc }, null, 2);
+}
+// Why an event read from a backup cannot be used, or null; a hand-edited file may have any shape.
+function backupEventProblem(e: any, t: Translate) {
+  const text = (v: unknown): v is string => typeof v === 'string';
+  const optional = (v: unknown, ok: (v: any) => boolean) => v === undefined || ok(v);
+  const date = (v: unknown) => text(v) && isISODate(v);
+  const readable = text(e.id) && text(e.title) && DAYS.includes(e.day) && text(e.start) && text(e.end) && text(e.category) && text(e.color)
+    && optional(e.notes, text) && optional(e.date, date) && optional(e.skip, s => Array.isArray(s) && s.every(date))
+    && optional(e.repeat, r => Array.isArray(r?.days) && r.days.every((d: unknown) => DAYS.includes(d as Day)) && optional(r.from, date) && optional(r.until, date))
+    && optional(e.tasks, isTaskList) && optional(e.changes, isChangeMap) && optional(e.dropOff, text) && optional(e.pickUp, text);
+  return readable ? validateEvent(e, t) : t('eventDamaged');
+}
+// A backup that would not render is refused whole, before it can be saved over the planner.
+export function parseBackup(text: string, t: Translate): PlannerDoc {
+  let data: any;
+  try { data = JSON.parse(text); } catch { throw new Error(t('notJson')); }
+  if (data?.app !== BACKUP_APP || typeof data.version !== 'number' || !Array.isArray(data.profiles)) throw new Error(t('notBackup'));
+  const wellFormed = data.profiles.every((p: any) => typeof p?.id === 'string' && typeof p.name === 'string' && Array.isArray(p.events)
+    && p.events.every((e: unknown) => !!e && typeof e === 'object' && !Array.isArray(e)));
+  if (!wellFormed) throw new Error(t('notBackup'));
+  const { app: _app, exportedAt: _exportedAt, ...raw } = data;
+  const doc = migrateDoc({ categories: [], templates: [], caregivers: [], lock: null, kidMode: false, ...raw }, t);
+  for (const p of doc.profiles) {
+    for (const e of p.events) {
+      const problem = backupEventProblem(e, t);
+      if (problem) throw new Error(t('backupBadEvent', { title: typeof e.title === 'string' && e.title.trim() ? e.title : t('untitled'), name: p.name, problem }));
+    }
+  }
+  return doc;
+}
+
+function unionById<T extends { id: string }>(current: T[] = [], incoming: T[] = []) {
+  const ids = new Set(incoming.map(x => x.id));
+  return [...current.filter(x => !ids.has(x.id)), ...incoming];
+}
+// Merging keeps the current title and settings and adds the backup's children, events, checklists,
+// rewards, stars, categories and caregivers; where both have the same item, the backup's copy wins.
+export function mergeDocs(current: PlannerDoc, backup: PlannerDoc): PlannerDoc {
+  const owners = new Map(current.profiles.flatMap(p => p.events.map(e => [e.id, p.id] as const)));
+  const profiles = backup.profiles.map(b => ({ ...b, events: b.events.map(e => (owners.has(e.id) && owners.get(e.id) !== b.id ? { ...e, id: crypto.randomUUID() } : e)) }));
+  const merged = current.profiles.map(p => {
+    const b = profiles.find(x => x.id === p.id);
+    if (!b) return p;
+    const done = { ...p.done };
+    Object.entries(b.done ?? {}).forEach(([date, ids]) => { done[date] = [...new Set([...(done[date] ?? []), ...ids])]; });
+    const dayTasks = { ...p.dayTasks };
+    DAYS.forEach(d => { if (b.dayTasks?.[d]) dayTasks[d] = unionById(dayTasks[d], b.dayTasks[d]); });
+    return { ...p, events: unionById(p.events, b.events), rewards: unionById(p.rewards, b.rewards), ledger: unionById(p.ledger, b.ledger), done, dayTasks };
+  });
+  return {
+    ...current,
+    profiles: [...merged, ...profiles.filter(b => !current.profiles.some(p => p.id === b.id))],
+    categories: [...current.categories, ...backup.categories.filter(c => !findCategory(current.categories, c.name))],
+    templates: unionById(current.templates, backup.templates),
+    caregivers: unionById(current.caregivers, backup.caregivers),
+  };
+}
+
+// A shared week travels in the URL fragment, which never reaches a server: compact JSON in base64url,
+// one array per occurrence with its day counted from the start of the week.
+export type SharedWeek = { name: string; weekStart: string; events: EventItem[] };
+
+function toBase64Url(text: string) {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+function fromBase64Url(code: string) {
+  const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+export function encodeWeek(name: string, weekStart: string, occurrences: Occurrence[]) {
+  const e = occurrences.map(o => {
+    const row = [o.title, daysBetween(weekStart, o.date), o.start, o.end, o.category, o.color, o.notes ?? ''];
+    while (row[row.length - 1] === '') row.pop();
+    return row;
+  });
+  return toBase64Url(JSON.stringify({ v: 1, n: name, w: weekStart, e }));
+}
+export function decodeWeek(code: string, t: Translate): SharedWeek {
+  let data: any;
+  try { data = JSON.parse(fromBase64Url(code)); } catch { throw new Error(t('linkDamaged')); }
+  if (data?.v !== 1 || !isISODate(data.w) || !Array.isArray(data.e)) throw new Error(t('linkNoWeek'));
+  // The link comes from anyone, so every field is checked as strictly as a CSV row.
+  const events = data.e.map((row: unknown): EventItem => {
+    if (!Array.isArray(row)) throw new Error(t('linkBadEvent'));
+    const [title, offset, start, end, category = '', color = defaultAccent, notes = ''] = row as [string, number, string, string, string?, string?, string?];
+    if (typeof title !== 'string' || !Number.isInteger(offset) || offset < 0 || offset > 6 || !HHMM.test(start) || !(HHMM.test(end) || end === '24:00')
+      || start >= end || typeof category !== 'string' || typeof notes !== 'string' || typeof color !== 'string' || (color !== '' && !/^#[0-9a-f]{6}$/i.test(color))) {
+      throw new Error(t('linkBadEvent'));
+    }
+    const date = addDays(data.w, offset);
+    return { id: crypto.randomUUID(), title, day: dayOf(date), start, end, category, color: color || defaultAccent, notes, date };
+  });
+  return { name: String(data.n ?? ''), weekStart: data.w, events };
+}
+export function weekFromText(text: string, t: Translate) {
+  const match = text.match(/#week=([A-Za-z0-9_-]+)/);
+  return match ? decodeWeek(match[1], t) : null;
+}
+
+// --- Undo / redo ---
+
+// History keeps each child's events, so undo covers adding, editing, deleting and importing events
+// without rolling back ticks, stars or profile settings made in between.
+export type EventsSnapshot = Record<string, EventItem[]>;
+export type HistoryEntry = { label: string; events: EventsSnapshot };
+export const HISTORY_LIMIT = 50;
+
+export function snapshotEvents(profiles: Profile[]): EventsSnapshot {
+  return Object.fromEntries(profiles.map(p => [p.id, p.events]));
+}
+export function restoreEvents(profiles: Profile[], snapshot: EventsSnapshot) {
+  return profiles.map(p => (snapshot[p.id] ? { ...p, events: snapshot[p.id] } : p));
+}